@@ -0,0 +1,345 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { bech32 } from "bech32";
+import * as ecc from "tiny-secp256k1";
+import { sha256 } from "bitcoinjs-lib/src/crypto";
+import {
+	INVOICE_CLTV_SAFETY_MARGIN,
+	INVOICE_DEFAULT_EXPIRY,
+	INVOICE_DEFAULT_MIN_FINAL_CLTV_EXPIRY,
+	INVOICE_MIN_REDEEM_BLOCKS,
+} from "./constants";
+import { HTLCErrorCode, HTLCParamsError, invoiceErrors } from "./errors";
+import { ExpiryType, HTLCParams, SpendChecks } from "./htlc";
+import { assert } from "./utils";
+
+// Offline BOLT11 parsing for swaps between Lightning and a HTLC locked to the payment hash of an
+// invoice: the payee of the invoice locks bitcoin to its payment hash, the payer redeems them
+// revealing the preimage, which settles the invoice.
+
+/**
+ * Fields of a BOLT11 invoice used by swaps
+ */
+export type Bolt11Invoice = {
+	/**
+	 * bech32 prefix of the network (bc, tb, tbs or bcrt)
+	 */
+	currency: string;
+	/**
+	 * amount in millisatoshis, absent for invoices of any amount
+	 */
+	amountMsat?: bigint;
+	/**
+	 * creation time in unix seconds
+	 */
+	timestamp: number;
+	/**
+	 * seconds after the timestamp the invoice expires at
+	 */
+	expiry: number;
+	/**
+	 * 32 bytes payment hash, the secret hash of the HTLC
+	 */
+	paymentHash: string;
+	/**
+	 * min cltv expiry delta in blocks of the last hop of the payment
+	 */
+	minFinalCltvExpiry: number;
+	/**
+	 * 33 bytes public key of the payee which signed the invoice
+	 */
+	payeePubkey: string;
+	paymentSecret?: string;
+	description?: string;
+	descriptionHash?: string;
+};
+
+/**
+ * Options of a HTLC built from an invoice
+ */
+export type InvoiceHTLCOptions = {
+	/**
+	 * initiator's x-only public key or 33 bytes public key
+	 */
+	initiatorPubkey: string;
+	/**
+	 * redeemer's x-only public key or 33 bytes public key
+	 */
+	redeemerPubkey: string;
+	/**
+	 * amount in sats the HTLC is funded with, up to the invoice amount. Defaults to the invoice amount
+	 */
+	amount?: number;
+	/**
+	 * blocks the refund precedes the min final cltv expiry of the invoice by.
+	 * Defaults to `INVOICE_CLTV_SAFETY_MARGIN`
+	 */
+	safetyMargin?: number;
+	/**
+	 * blocks between the latest block and the expiry the redeemer has at least to redeem.
+	 * Defaults to `INVOICE_MIN_REDEEM_BLOCKS`
+	 */
+	minRedeemBlocks?: number;
+	/**
+	 * current unix time in seconds, defaults to the system time
+	 */
+	now?: number;
+};
+
+const MULTIPLIERS_MSAT: Record<string, bigint> = {
+	"": 100_000_000_000n,
+	m: 100_000_000n,
+	u: 100_000n,
+	n: 100n,
+};
+
+// tagged fields (bolt11)
+const TAG_PAYMENT_HASH = 1;
+const TAG_EXPIRY = 6;
+const TAG_DESCRIPTION = 13;
+const TAG_PAYMENT_SECRET = 16;
+const TAG_PAYEE_PUBKEY = 19;
+const TAG_DESCRIPTION_HASH = 23;
+const TAG_MIN_FINAL_CLTV_EXPIRY = 24;
+
+/**
+ * timestamp (35 bits) and signature with recovery id (65 bytes) in 5 bits words
+ */
+const TIMESTAMP_WORDS = 7;
+const SIGNATURE_WORDS = 104;
+
+/**
+ * Parses a BOLT11 invoice without any network access, verifying its signature
+ */
+export function parseInvoice(invoice: string): Bolt11Invoice {
+	let prefix: string;
+	let words: number[];
+	try {
+		({ prefix, words } = bech32.decode(invoice, Number.MAX_SAFE_INTEGER));
+	} catch (e) {
+		throw invalidInvoice((e as Error).message);
+	}
+
+	const hrp = /^ln(bcrt|bc|tbs|tb)(\d*)([munp]?)$/.exec(prefix);
+	if (!hrp) throw invalidInvoice(`unknown prefix ${prefix}`);
+	const [, currency, amount, multiplier] = hrp;
+	if (multiplier && !amount) throw invalidInvoice("multiplier without amount");
+	const parsed: Bolt11Invoice = {
+		currency,
+		amountMsat: amount ? amountMsat(amount, multiplier) : undefined,
+		timestamp: 0,
+		expiry: INVOICE_DEFAULT_EXPIRY,
+		paymentHash: "",
+		minFinalCltvExpiry: INVOICE_DEFAULT_MIN_FINAL_CLTV_EXPIRY,
+		payeePubkey: "",
+	};
+
+	if (words.length < TIMESTAMP_WORDS + SIGNATURE_WORDS) throw invalidInvoice("too short");
+	const data = words.slice(0, -SIGNATURE_WORDS);
+	parsed.timestamp = wordsToInt(data.slice(0, TIMESTAMP_WORDS));
+
+	let payeePubkey: Buffer | undefined;
+	for (let i = TIMESTAMP_WORDS; i < data.length; ) {
+		if (i + 3 > data.length) throw invalidInvoice("truncated tagged field");
+		const tag = data[i];
+		const length = data[i + 1] * 32 + data[i + 2];
+		const field = data.slice(i + 3, i + 3 + length);
+		if (field.length !== length) throw invalidInvoice("truncated tagged field");
+		i += 3 + length;
+
+		// fields of unexpected lengths are skipped (bolt11)
+		switch (tag) {
+			case TAG_PAYMENT_HASH:
+				if (length === 52 && !parsed.paymentHash) {
+					parsed.paymentHash = wordsToBytes(field).toString("hex");
+				}
+				break;
+			case TAG_PAYMENT_SECRET:
+				if (length === 52) parsed.paymentSecret = wordsToBytes(field).toString("hex");
+				break;
+			case TAG_DESCRIPTION_HASH:
+				if (length === 52) parsed.descriptionHash = wordsToBytes(field).toString("hex");
+				break;
+			case TAG_DESCRIPTION:
+				parsed.description = wordsToBytes(field).toString("utf8");
+				break;
+			case TAG_EXPIRY:
+				parsed.expiry = wordsToInt(field);
+				break;
+			case TAG_MIN_FINAL_CLTV_EXPIRY:
+				parsed.minFinalCltvExpiry = wordsToInt(field);
+				break;
+			case TAG_PAYEE_PUBKEY:
+				if (length === 53) payeePubkey = wordsToBytes(field);
+				break;
+		}
+	}
+	if (!parsed.paymentHash) throw invalidInvoice("payment hash is missing");
+
+	// the signature commits to the prefix and the data padded to bytes
+	const sig = wordsToBytes(words.slice(-SIGNATURE_WORDS));
+	const [signature, recoveryId] = [sig.subarray(0, 64), sig[64]];
+	const hash = sha256(Buffer.concat([Buffer.from(prefix, "utf8"), wordsToBytes(data, true)]));
+	let valid = false;
+	try {
+		if (payeePubkey) {
+			valid = ecc.verify(hash, payeePubkey, signature);
+		} else if (recoveryId <= 3) {
+			const recovered = ecc.recover(hash, signature, recoveryId as 0 | 1 | 2 | 3, true);
+			if (recovered) payeePubkey = Buffer.from(recovered);
+			valid = !!recovered;
+		}
+	} catch {
+		valid = false;
+	}
+	assert(
+		valid,
+		new HTLCParamsError(HTLCErrorCode.INVALID_INVOICE_SIG, invoiceErrors.invalidInvoiceSig)
+	);
+	parsed.payeePubkey = payeePubkey!.toString("hex");
+
+	return parsed;
+}
+
+/**
+ * Parameters of a HTLC locked to the payment hash of the invoice.
+ *
+ * The HTLC expires at the absolute block height the payment of the invoice would time out at
+ * if it were made now (`tipHeight` plus the min final cltv expiry of the invoice), minus the
+ * safety margin. The HTLC can then be refunded before the payment times out and a preimage
+ * revealed by a redeem can still settle the invoice, however late the funding confirms.
+ * The funded amount is checked against `amount` before every spend.
+ *
+ * Throws if the invoice is for another network, has expired, has no amount in whole sats
+ * below `amount` or a min final cltv expiry not covering the safety margin and `minRedeemBlocks`.
+ * @param tipHeight latest block height
+ */
+export function invoiceHTLCParams(
+	invoice: Bolt11Invoice,
+	network: bitcoin.networks.Network,
+	tipHeight: number,
+	{
+		initiatorPubkey,
+		redeemerPubkey,
+		amount,
+		safetyMargin = INVOICE_CLTV_SAFETY_MARGIN,
+		minRedeemBlocks = INVOICE_MIN_REDEEM_BLOCKS,
+		now = Math.floor(Date.now() / 1000),
+	}: InvoiceHTLCOptions
+): { params: HTLCParams; checks: SpendChecks } {
+	// signet invoices use their own prefix but share the addresses of testnet
+	const currency = invoice.currency === "tbs" ? "tb" : invoice.currency;
+	assert(
+		currency === network.bech32,
+		new HTLCParamsError(
+			HTLCErrorCode.INVOICE_NETWORK_MISMATCH,
+			invoiceErrors.invoiceNetworkMismatch(invoice.currency, network.bech32)
+		)
+	);
+	const expiresAt = invoice.timestamp + invoice.expiry;
+	assert(
+		now < expiresAt,
+		new HTLCParamsError(
+			HTLCErrorCode.INVOICE_EXPIRED,
+			invoiceErrors.invoiceExpired(expiresAt)
+		)
+	);
+
+	const { amountMsat } = invoice;
+	if (amountMsat === undefined) {
+		throw new HTLCParamsError(
+			HTLCErrorCode.INVOICE_AMOUNT_REQUIRED,
+			invoiceErrors.invoiceAmountRequired
+		);
+	}
+	assert(
+		amountMsat % 1000n === 0n,
+		new HTLCParamsError(
+			HTLCErrorCode.INVOICE_AMOUNT_NOT_SATS,
+			invoiceErrors.invoiceAmountNotSats(amountMsat)
+		)
+	);
+	const invoiceAmount = Number(amountMsat / 1000n);
+	amount ??= invoiceAmount;
+	assert(
+		amount <= invoiceAmount,
+		new HTLCParamsError(
+			HTLCErrorCode.AMOUNT_EXCEEDS_INVOICE,
+			invoiceErrors.amountExceedsInvoice(amount, invoiceAmount)
+		)
+	);
+
+	// the refund should not open before the redeemer could confirm a redeem
+	assert(
+		invoice.minFinalCltvExpiry - safetyMargin >= Math.max(minRedeemBlocks, 1),
+		new HTLCParamsError(
+			HTLCErrorCode.INVOICE_CLTV_TOO_SHORT,
+			invoiceErrors.invoiceCltvTooShort(
+				invoice.minFinalCltvExpiry,
+				safetyMargin,
+				minRedeemBlocks
+			)
+		)
+	);
+
+	return {
+		params: {
+			secretHash: invoice.paymentHash,
+			initiatorPubkey,
+			redeemerPubkey,
+			expiry: tipHeight + invoice.minFinalCltvExpiry - safetyMargin,
+			expiryType: ExpiryType.ABSOLUTE,
+		},
+		checks: { expectedAmount: amount },
+	};
+}
+
+/**
+ * Whether the preimage (e.g. the secret revealed by a redeem) settles the invoice
+ */
+export function settlesInvoice(invoice: Bolt11Invoice, preimage: string): boolean {
+	const bytes = Buffer.from(preimage, "hex");
+	return bytes.length === 32 && sha256(bytes).toString("hex") === invoice.paymentHash;
+}
+
+/**
+ * Amount of the invoice prefix in millisatoshis, pico bitcoin amounts should be whole msats
+ */
+function amountMsat(amount: string, multiplier: string): bigint {
+	if (multiplier === "p") {
+		if (!amount.endsWith("0")) throw invalidInvoice("sub millisatoshi amount");
+		return BigInt(amount) / 10n;
+	}
+	return BigInt(amount) * MULTIPLIERS_MSAT[multiplier];
+}
+
+/**
+ * Big endian unsigned integer of 5 bits words
+ */
+function wordsToInt(words: number[]): number {
+	return words.reduce((acc, word) => acc * 32 + word, 0);
+}
+
+/**
+ * Bytes of 5 bits words, the leftover bits are dropped unless padded with zeros to a byte
+ */
+function wordsToBytes(words: number[], pad = false): Buffer {
+	const bytes: number[] = [];
+	let [acc, bits] = [0, 0];
+	for (const word of words) {
+		acc = ((acc << 5) | word) & 0xfff;
+		bits += 5;
+		if (bits >= 8) {
+			bits -= 8;
+			bytes.push((acc >> bits) & 0xff);
+		}
+	}
+	if (pad && bits > 0) bytes.push((acc << (8 - bits)) & 0xff);
+	return Buffer.from(bytes);
+}
+
+function invalidInvoice(reason: string): HTLCParamsError {
+	return new HTLCParamsError(
+		HTLCErrorCode.INVALID_INVOICE,
+		invoiceErrors.invalidInvoice(reason)
+	);
+}
@@ -1 +1,60 @@
 export const LEAF_VERSION = 0xc0;
+export const ANNEX_TAG = 0x50;
+/**
+ * locktimes below the threshold are block heights, the rest are unix timestamps
+ */
+export const LOCKTIME_THRESHOLD = 500000000;
+export const MAX_LOCKTIME = 0xffffffff;
+/**
+ * sequence of inputs which disables the locktime of the transaction
+ */
+export const SEQUENCE_FINAL = 0xffffffff;
+/**
+ * max sequence which still enables the locktime of a transaction
+ */
+export const SEQUENCE_ENABLE_LOCKTIME = 0xfffffffe;
+/**
+ * max sequence which signals the replaceability of a transaction (bip125)
+ */
+export const SEQUENCE_RBF = 0xfffffffd;
+/**
+ * bip68 relative locktime fields of the sequence
+ */
+export const SEQUENCE_LOCKTIME_DISABLE_FLAG = 0x80000000;
+export const SEQUENCE_LOCKTIME_TYPE_FLAG = 1 << 22;
+export const SEQUENCE_LOCKTIME_MASK = 0xffff;
+export const SEQUENCE_TIME_UNIT_SECONDS = 512;
+/**
+ * default fee rate cap in sats/vbyte above which spends are rejected as absurd
+ */
+export const DEFAULT_MAX_FEE_RATE = 1000;
+/**
+ * fee rate in sats/vbyte used by nodes to compute the dust threshold of an output
+ */
+export const DUST_RELAY_FEE_RATE = 3;
+/**
+ * fee rate in sats/vbyte a replacement has to pay on top of the fees of the replaced transaction
+ */
+export const INCREMENTAL_RELAY_FEE_RATE = 1;
+/**
+ * bytes of data nodes relay in an OP_RETURN output
+ */
+export const MAX_OP_RETURN_DATA = 80;
+/**
+ * expiry in seconds of BOLT11 invoices without an expiry field
+ */
+export const INVOICE_DEFAULT_EXPIRY = 3600;
+/**
+ * min final cltv expiry delta of BOLT11 invoices without a min_final_cltv_expiry field
+ */
+export const INVOICE_DEFAULT_MIN_FINAL_CLTV_EXPIRY = 18;
+/**
+ * blocks the refund of a HTLC built from an invoice precedes the min final cltv expiry of the
+ * invoice by, covering the blocks mined until the invoice is paid and the settlement of the invoice
+ */
+export const INVOICE_CLTV_SAFETY_MARGIN = 12;
+/**
+ * blocks the redeemer of a HTLC built from an invoice has at least to confirm a redeem
+ * before the HTLC can be refunded
+ */
+export const INVOICE_MIN_REDEEM_BLOCKS = 6;
@@ -0,0 +1,85 @@
+// Output descriptor (bip380, bip386) helpers
+
+const INPUT_CHARSET =
+	"0123456789()[],'/*abcdefgh@:$%{}" +
+	"IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~" +
+	'ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const GENERATOR = [0xf5dee51989n, 0xa9fdca3312n, 0x1bab10e32dn, 0x3706b1677an, 0x644d626ffdn];
+
+function polymod(c: bigint, value: number): bigint {
+	const c0 = c >> 35n;
+	c = ((c & 0x7ffffffffn) << 5n) ^ BigInt(value);
+	for (let i = 0; i < GENERATOR.length; i++) {
+		if ((c0 >> BigInt(i)) & 1n) c ^= GENERATOR[i];
+	}
+	return c;
+}
+
+/**
+ * Computes the 8 characters checksum of a descriptor (bip380)
+ * @returns checksum, or undefined if the descriptor has characters outside of the charset
+ */
+export function descriptorChecksum(descriptor: string): string | undefined {
+	let c = 1n;
+	let cls = 0;
+	let clsCount = 0;
+	for (const ch of descriptor) {
+		const pos = INPUT_CHARSET.indexOf(ch);
+		if (pos === -1) return;
+		c = polymod(c, pos & 31);
+		cls = cls * 3 + (pos >> 5);
+		if (++clsCount === 3) {
+			c = polymod(c, cls);
+			cls = 0;
+			clsCount = 0;
+		}
+	}
+	if (clsCount > 0) c = polymod(c, cls);
+	for (let i = 0; i < 8; i++) c = polymod(c, 0);
+	c ^= 1n;
+
+	let checksum = "";
+	for (let i = 0; i < 8; i++) {
+		checksum += CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - i))) & 31n)];
+	}
+	return checksum;
+}
+
+/**
+ * Appends the checksum to a descriptor
+ */
+export function withChecksum(descriptor: string): string {
+	return `${descriptor}#${descriptorChecksum(descriptor)}`;
+}
+
+/**
+ * Splits a descriptor into its body and checksum, verifying the checksum if present
+ * @returns descriptor without the checksum, or undefined if the checksum does not match
+ */
+export function stripChecksum(descriptor: string): string | undefined {
+	const [body, checksum, ...rest] = descriptor.split("#");
+	if (rest.length > 0) return;
+	if (checksum !== undefined && descriptorChecksum(body) !== checksum) return;
+	return body;
+}
+
+/**
+ * Splits a string on the commas which are not nested in parentheses or braces
+ */
+export function splitTopLevel(expression: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let start = 0;
+	for (let i = 0; i < expression.length; i++) {
+		const ch = expression[i];
+		if (ch === "(" || ch === "{") depth++;
+		else if (ch === ")" || ch === "}") depth--;
+		else if (ch === "," && depth === 0) {
+			parts.push(expression.slice(start, i));
+			start = i + 1;
+		}
+	}
+	parts.push(expression.slice(start));
+	return parts;
+}
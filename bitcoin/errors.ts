@@ -2,6 +2,7 @@ export const htlcErrors = {
 	secretMismatch: "invalid secret",
 	secretHashLenMismatch: "secret hash should be 32 bytes",
 	pubkeyLenMismatch: "pubkey should be 32 bytes",
+	compressedPubkeyRequired: "pubkey should be a 33 bytes compressed public key",
 	zeroOrNegativeExpiry: "expiry should be greater than 0",
 	htlcAddressGenerationFailed: "failed to generate htlc address",
 	notFunded: "address not funded",
@@ -11,6 +12,337 @@ export const htlcErrors = {
 	invalidCounterpartySigForUTXO: (utxo: string) =>
 		"invalid counterparty signature for utxo " + utxo,
 	htlcNotExpired: (blocks: number) => `HTLC not expired, need more ${blocks} blocks`,
+	htlcNotExpiredForSeconds: (seconds: number) =>
+		`HTLC not expired, need more ${seconds} seconds`,
+	invalidAbsoluteExpiry: "absolute expiry should be an integer fitting in 32 bits",
+	invalidRelativeExpiry: "relative expiry should be an integer fitting in 16 bits",
+	medianTimePastRequired: "median time past is required to refund a time based expiry",
+	medianTimePastUnavailable:
+		"the provider of the wallet has no median time past to refund a time based expiry, use HTLC.fromSigner with a backend implementing getMedianTimePast",
+	confirmationTimeRequired: (txid: string) => `confirmation time not found for utxo ${txid}`,
+	feeOrFeeRateRequired: "either fee or fee rate is required",
+	singleChangeOutputRequired: "exactly one output should be the change output",
+	invalidOutputAmount: (address: string) =>
+		`amount of the output to ${address} should be a positive integer`,
+	outputsExceedBalance: (balance: number, needed: number) =>
+		`outputs and fee need ${needed} sats but the htlc is funded with ${balance} sats`,
+	signerRequired: "signer is required for this operation, watch-only HTLCs cannot sign",
+	backendRequired: "chain backend is required for this operation",
+	outputsRequired: "outputs are required as the signer has no address",
+	fundingWalletRequired: "signer should be able to send funds to initiate",
+	secretRequired: "secret is required to redeem",
+	psbtLeafNotFound: (input: number) => `tap leaf script not found for input ${input}`,
+	psbtSigNotFound: (input: number, pubkey: string) =>
+		`signature of ${pubkey} not found for input ${input}`,
+	psbtWitnessUtxoNotFound: (input: number) => `witness utxo not found for input ${input}`,
+	blindingLenMismatch: "blinding should be 32 bytes",
+	blindingWithMusig: "blinding can not be used with a MuSig2 internal key",
+	perHtlcBlindingConflict:
+		"per HTLC blinding can not be used with a blinding or a MuSig2 internal key",
+	secretLenMismatch: "secret should be 32 bytes",
+	miniscriptRequired: "descriptors are only available for miniscript HTLCs",
+	invalidDescriptor: "descriptor does not describe a HTLC",
+	descriptorChecksumMismatch: "invalid descriptor checksum",
+	emptyBatch: "at least one HTLC is required to build a batch",
+	batchNetworkMismatch: "all HTLCs of a batch should be on the same network",
+	invalidFee: (fee: number) => `fee should be a non negative integer, got ${fee}`,
+	feeExceedsBalance: (balance: number, fee: number) =>
+		`fee of ${fee} sats exceeds the balance of ${balance} sats`,
+	feeRateTooHigh: (feeRate: number, maxFeeRate: number) =>
+		`fee rate of ${feeRate} sats/vbyte is above the cap of ${maxFeeRate} sats/vbyte`,
+	dustOutput: (address: string, amount: number, threshold: number) =>
+		`output of ${amount} sats to ${address} is below the dust threshold of ${threshold} sats`,
+	fundingBelowExpected: (balance: number, expected: number) =>
+		`htlc is funded with ${balance} sats but ${expected} sats are expected`,
+	insufficientConfirmations: (txid: string, confirmations: number, required: number) =>
+		`utxo ${txid} has ${confirmations} confirmations but ${required} are required`,
+	cannotBumpLeaf: "only redeem and refund spends can be re-signed with a higher fee",
+	spentUtxoNotFound: (txid: string, vout: number) =>
+		`utxo ${txid}:${vout} spent by the transaction is not given`,
+	changeOutputUnknown: "outputs are required to bump a transaction with many outputs",
+	feeBumpTooLow: (oldFee: number, newFee: number, minFee: number) =>
+		`replacement fee of ${newFee} sats should be at least ${minFee} sats to replace a fee of ${oldFee} sats`,
+	invalidRefundSequence: (input: number) =>
+		`sequence of input ${input} does not satisfy the relative expiry of the refund leaf`,
+	cpfpOutputUnsupported: (vout: number) =>
+		`output ${vout} should be a p2wpkh or p2tr output to be spent by a child`,
+	mixedLocktimeTypes:
+		"absolute expiries of a batch should be either all heights or all timestamps",
+	invalidRefundLocktime: (input: number) =>
+		`locktime of the transaction does not satisfy the absolute expiry of the refund leaf of input ${input}`,
+	invalidControlBlockSize: (input: number, size: number) =>
+		`control block of input ${input} is ${size} bytes, it should be 33 bytes plus 32 bytes per merkle proof node`,
+	internalKeyMismatch: (input: number) =>
+		`control block of input ${input} does not carry the internal key of the htlc`,
+	leafNotCommitted: (input: number) =>
+		`control block of input ${input} does not commit its leaf script to the output key`,
+	unknownLeaf: (input: number) => `leaf script of input ${input} is not a leaf of the htlc`,
+	witnessSizeMismatch: (input: number, size: number, expected: number) =>
+		`witness of input ${input} has ${size} items but the leaf needs ${expected}`,
+	secretHashMismatch: (input: number) =>
+		`secret revealed by input ${input} does not hash to the secret hash`,
+	secretSizeMismatch: (input: number, size: number) =>
+		`secret revealed by input ${input} is ${size} bytes, it should be 32 bytes`,
+	invalidSigSize: (input: number, size: number) =>
+		`signature of input ${input} is ${size} bytes, it should be 64 or 65 bytes`,
+	invalidSig: (input: number, pubkey: string) =>
+		`signature of ${pubkey} is invalid for the sighash of input ${input}`,
+	invalidPresignedRefund: (reason: string) => `invalid presigned refund: ${reason}`,
+	fundingInputUnsupported: (input: number) =>
+		`input ${input} should spend a p2wpkh or p2tr output to price the funding with a fee rate, give an absolute fee instead`,
+	fundingInputTxRequired: (input: number) =>
+		`raw transaction of input ${input} is required as it does not spend a segwit output`,
+	insufficientFundingInputs: (balance: number, needed: number) =>
+		`funding needs ${needed} sats but the inputs hold ${balance} sats`,
+	invalidSwapId: "swap id should be 1 to 80 bytes of hex",
+	fundingOutputMismatch: (address: string, amount: number) =>
+		`funding transaction should have exactly one output of ${amount} sats to ${address}`,
+	swapIdNotCommitted: "funding transaction does not commit to the swap id",
 
 	invalidLeaf: "invalid leaf",
 };
+
+export const invoiceErrors = {
+	invalidInvoice: (reason: string) => `invalid BOLT11 invoice: ${reason}`,
+	invalidInvoiceSig: "signature of the invoice is invalid",
+	invoiceNetworkMismatch: (currency: string, network: string) =>
+		`invoice is for ${currency}, the HTLC is on ${network}`,
+	invoiceAmountRequired: "invoice should have an amount",
+	invoiceAmountNotSats: (amountMsat: bigint) =>
+		`invoice amount of ${amountMsat} msat is not a whole number of sats`,
+	amountExceedsInvoice: (amount: number, invoiceAmount: number) =>
+		`HTLC amount ${amount} exceeds the invoice amount ${invoiceAmount}`,
+	invoiceExpired: (expiresAt: number) => `invoice expired at ${expiresAt}`,
+	invoiceCltvTooShort: (cltvDelta: number, margin: number, minRedeemBlocks: number) =>
+		`min final cltv expiry delta ${cltvDelta} of the invoice should cover the safety margin of ${margin} blocks and a redeem window of ${minRedeemBlocks} blocks`,
+};
+
+export const musigErrors = {
+	invalidSecretKey: "invalid secret key",
+	musigDisabled: "MuSig2 key path spending is not enabled for this HTLC",
+	notAParticipant: "signer is neither the initiator nor the redeemer",
+	musigSignerRequired: "signer should support MuSig2 to sign cooperative spends",
+	noncesNotFound: (input: number) => `public nonces not found for input ${input}`,
+	partialSigNotFound: (input: number) => `partial signatures not found for input ${input}`,
+	invalidPartialSig: (input: number, pubkey: string) =>
+		`invalid partial signature of ${pubkey} for input ${input}`,
+};
+
+/**
+ * Stable machine readable codes of the errors thrown by the bitcoin module
+ */
+export enum HTLCErrorCode {
+	// parameters
+	SECRET_MISMATCH = "SECRET_MISMATCH",
+	SECRET_HASH_LEN_MISMATCH = "SECRET_HASH_LEN_MISMATCH",
+	SECRET_LEN_MISMATCH = "SECRET_LEN_MISMATCH",
+	SECRET_REQUIRED = "SECRET_REQUIRED",
+	PUBKEY_LEN_MISMATCH = "PUBKEY_LEN_MISMATCH",
+	ZERO_OR_NEGATIVE_EXPIRY = "ZERO_OR_NEGATIVE_EXPIRY",
+	INVALID_ABSOLUTE_EXPIRY = "INVALID_ABSOLUTE_EXPIRY",
+	INVALID_RELATIVE_EXPIRY = "INVALID_RELATIVE_EXPIRY",
+	BLINDING_LEN_MISMATCH = "BLINDING_LEN_MISMATCH",
+	BLINDING_WITH_MUSIG = "BLINDING_WITH_MUSIG",
+	PER_HTLC_BLINDING_CONFLICT = "PER_HTLC_BLINDING_CONFLICT",
+	MINISCRIPT_REQUIRED = "MINISCRIPT_REQUIRED",
+	INVALID_DESCRIPTOR = "INVALID_DESCRIPTOR",
+	DESCRIPTOR_CHECKSUM_MISMATCH = "DESCRIPTOR_CHECKSUM_MISMATCH",
+	INVALID_LEAF = "INVALID_LEAF",
+	SIGNER_REQUIRED = "SIGNER_REQUIRED",
+	BACKEND_REQUIRED = "BACKEND_REQUIRED",
+	OUTPUTS_REQUIRED = "OUTPUTS_REQUIRED",
+	FUNDING_WALLET_REQUIRED = "FUNDING_WALLET_REQUIRED",
+	FUNDING_INPUT_UNSUPPORTED = "FUNDING_INPUT_UNSUPPORTED",
+	FUNDING_INPUT_TX_REQUIRED = "FUNDING_INPUT_TX_REQUIRED",
+	INVALID_SWAP_ID = "INVALID_SWAP_ID",
+	EMPTY_BATCH = "EMPTY_BATCH",
+	BATCH_NETWORK_MISMATCH = "BATCH_NETWORK_MISMATCH",
+	MUSIG_DISABLED = "MUSIG_DISABLED",
+	MUSIG_SIGNER_REQUIRED = "MUSIG_SIGNER_REQUIRED",
+	NOT_A_PARTICIPANT = "NOT_A_PARTICIPANT",
+	INVALID_SECRET_KEY = "INVALID_SECRET_KEY",
+	// funding
+	NOT_FUNDED = "NOT_FUNDED",
+	FUNDING_BELOW_EXPECTED = "FUNDING_BELOW_EXPECTED",
+	INSUFFICIENT_CONFIRMATIONS = "INSUFFICIENT_CONFIRMATIONS",
+	FUNDING_OUTPUT_MISMATCH = "FUNDING_OUTPUT_MISMATCH",
+	SWAP_ID_NOT_COMMITTED = "SWAP_ID_NOT_COMMITTED",
+	// expiry
+	NOT_EXPIRED = "NOT_EXPIRED",
+	MEDIAN_TIME_PAST_REQUIRED = "MEDIAN_TIME_PAST_REQUIRED",
+	MEDIAN_TIME_PAST_UNAVAILABLE = "MEDIAN_TIME_PAST_UNAVAILABLE",
+	CONFIRMATION_TIME_REQUIRED = "CONFIRMATION_TIME_REQUIRED",
+	MIXED_LOCKTIME_TYPES = "MIXED_LOCKTIME_TYPES",
+	INVALID_REFUND_SEQUENCE = "INVALID_REFUND_SEQUENCE",
+	INVALID_REFUND_LOCKTIME = "INVALID_REFUND_LOCKTIME",
+	// signatures
+	NO_COUNTERPARTY_SIGS = "NO_COUNTERPARTY_SIGS",
+	COUNTERPARTY_SIG_NOT_FOUND = "COUNTERPARTY_SIG_NOT_FOUND",
+	INVALID_COUNTERPARTY_SIG = "INVALID_COUNTERPARTY_SIG",
+	PSBT_LEAF_NOT_FOUND = "PSBT_LEAF_NOT_FOUND",
+	PSBT_SIG_NOT_FOUND = "PSBT_SIG_NOT_FOUND",
+	PSBT_WITNESS_UTXO_NOT_FOUND = "PSBT_WITNESS_UTXO_NOT_FOUND",
+	NONCES_NOT_FOUND = "NONCES_NOT_FOUND",
+	PARTIAL_SIG_NOT_FOUND = "PARTIAL_SIG_NOT_FOUND",
+	INVALID_PARTIAL_SIG = "INVALID_PARTIAL_SIG",
+	INVALID_SIG = "INVALID_SIG",
+	// witnesses
+	INVALID_CONTROL_BLOCK = "INVALID_CONTROL_BLOCK",
+	LEAF_NOT_COMMITTED = "LEAF_NOT_COMMITTED",
+	UNKNOWN_LEAF = "UNKNOWN_LEAF",
+	WITNESS_SIZE_MISMATCH = "WITNESS_SIZE_MISMATCH",
+	// spend outputs and fee
+	FEE_OR_FEE_RATE_REQUIRED = "FEE_OR_FEE_RATE_REQUIRED",
+	INVALID_FEE = "INVALID_FEE",
+	FEE_EXCEEDS_BALANCE = "FEE_EXCEEDS_BALANCE",
+	FEE_RATE_TOO_HIGH = "FEE_RATE_TOO_HIGH",
+	SINGLE_CHANGE_OUTPUT_REQUIRED = "SINGLE_CHANGE_OUTPUT_REQUIRED",
+	INVALID_OUTPUT_AMOUNT = "INVALID_OUTPUT_AMOUNT",
+	OUTPUTS_EXCEED_BALANCE = "OUTPUTS_EXCEED_BALANCE",
+	DUST_OUTPUT = "DUST_OUTPUT",
+	CANNOT_BUMP_LEAF = "CANNOT_BUMP_LEAF",
+	SPENT_UTXO_NOT_FOUND = "SPENT_UTXO_NOT_FOUND",
+	CHANGE_OUTPUT_UNKNOWN = "CHANGE_OUTPUT_UNKNOWN",
+	FEE_BUMP_TOO_LOW = "FEE_BUMP_TOO_LOW",
+	CPFP_OUTPUT_UNSUPPORTED = "CPFP_OUTPUT_UNSUPPORTED",
+	INVALID_PRESIGNED_REFUND = "INVALID_PRESIGNED_REFUND",
+	INSUFFICIENT_FUNDING_INPUTS = "INSUFFICIENT_FUNDING_INPUTS",
+	// invoices
+	INVALID_INVOICE = "INVALID_INVOICE",
+	INVALID_INVOICE_SIG = "INVALID_INVOICE_SIG",
+	INVOICE_NETWORK_MISMATCH = "INVOICE_NETWORK_MISMATCH",
+	INVOICE_AMOUNT_REQUIRED = "INVOICE_AMOUNT_REQUIRED",
+	INVOICE_AMOUNT_NOT_SATS = "INVOICE_AMOUNT_NOT_SATS",
+	AMOUNT_EXCEEDS_INVOICE = "AMOUNT_EXCEEDS_INVOICE",
+	INVOICE_EXPIRED = "INVOICE_EXPIRED",
+	INVOICE_CLTV_TOO_SHORT = "INVOICE_CLTV_TOO_SHORT",
+	// keys
+	ADDRESS_GENERATION_FAILED = "ADDRESS_GENERATION_FAILED",
+	INVALID_BLINDING = "INVALID_BLINDING",
+	INTERNAL_KEY_GENERATION_FAILED = "INTERNAL_KEY_GENERATION_FAILED",
+	PUBKEY_TWEAK_FAILED = "PUBKEY_TWEAK_FAILED",
+}
+
+/**
+ * Base class of the errors thrown by the bitcoin module.
+ * Match on `code` rather than on the message.
+ */
+export class HTLCError extends Error {
+	readonly code: HTLCErrorCode;
+
+	constructor(code: HTLCErrorCode, message: string) {
+		super(message);
+		this.name = new.target.name;
+		this.code = code;
+	}
+}
+
+/**
+ * Invalid HTLC parameters, secret, descriptor or missing signer
+ */
+export class HTLCParamsError extends HTLCError {}
+
+/**
+ * The HTLC is not funded as required to spend it
+ */
+export class HTLCFundingError extends HTLCError {
+	readonly address?: string;
+	readonly txid?: string;
+	readonly balance?: number;
+	readonly confirmations?: number;
+
+	constructor(
+		code: HTLCErrorCode,
+		message: string,
+		fields: { address?: string; txid?: string; balance?: number; confirmations?: number }
+	) {
+		super(code, message);
+		Object.assign(this, fields);
+	}
+}
+
+/**
+ * The refund leaf can not be spent yet, or its expiry can not be checked
+ */
+export class HTLCExpiryError extends HTLCError {
+	/**
+	 * blocks left until the HTLC can be refunded
+	 */
+	readonly blocks?: number;
+	/**
+	 * seconds left until the HTLC can be refunded, for time based expiries
+	 */
+	readonly seconds?: number;
+	readonly txid?: string;
+
+	constructor(
+		code: HTLCErrorCode,
+		message: string,
+		fields: { blocks?: number; seconds?: number; txid?: string } = {}
+	) {
+		super(code, message);
+		Object.assign(this, fields);
+	}
+}
+
+/**
+ * A signature (or a MuSig2 nonce or partial signature) is missing or invalid
+ */
+export class HTLCSignatureError extends HTLCError {
+	/**
+	 * txid of the utxo the signature is for
+	 */
+	readonly utxo?: string;
+	readonly input?: number;
+	readonly pubkey?: string;
+
+	constructor(
+		code: HTLCErrorCode,
+		message: string,
+		fields: { utxo?: string; input?: number; pubkey?: string } = {}
+	) {
+		super(code, message);
+		Object.assign(this, fields);
+	}
+}
+
+/**
+ * The outputs or the fee of a spend are invalid
+ */
+export class HTLCSpendError extends HTLCError {
+	readonly address?: string;
+	readonly amount?: number;
+	readonly fee?: number;
+
+	constructor(
+		code: HTLCErrorCode,
+		message: string,
+		fields: { address?: string; amount?: number; fee?: number } = {}
+	) {
+		super(code, message);
+		Object.assign(this, fields);
+	}
+}
+
+/**
+ * Internal key or output key derivation failed
+ */
+export class HTLCKeyError extends HTLCError {}
+
+/**
+ * Failed check of an input of a signed HTLC spend (see `HTLC.validateTx`)
+ */
+export type SpendDiagnostic = { input: number; code: HTLCErrorCode; message: string };
+
+/**
+ * A signed spend failed the checks run before broadcasting it.
+ * `code` is the code of the first failed check, `diagnostics` lists all of them
+ */
+export class HTLCValidationError extends HTLCError {
+	readonly diagnostics: SpendDiagnostic[];
+
+	constructor(diagnostics: SpendDiagnostic[]) {
+		super(diagnostics[0].code, diagnostics.map(({ message }) => message).join("; "));
+		this.diagnostics = diagnostics;
+	}
+}
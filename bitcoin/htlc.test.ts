@@ -1,5 +1,5 @@
 import { expect } from "chai";
-import { HTLC, Leaf } from "./htlc";
+import { ExpiryType, HTLC, HTLCState, Leaf, OfflineSpendOptions } from "./htlc";
 import { randomBytes } from "ethers";
 import { sha256 } from "bitcoinjs-lib/src/crypto";
 import {
@@ -8,21 +8,50 @@ import {
 	BitcoinWallet,
 	IBitcoinWallet,
 } from "@catalogfi/wallets";
-import { regTestUtils } from "./regtest";
+import { MockBitcoinChain } from "./mockChain";
+import { P2WSHHTLC } from "./p2wshHtlc";
+import {
+	DEFAULT_BLINDING,
+	deriveBlinding,
+	generateInternalkey,
+	isUnspendableInternalKey,
+} from "./internalKey";
+import {
+	HTLCError,
+	HTLCErrorCode,
+	HTLCExpiryError,
+	HTLCKeyError,
+	HTLCParamsError,
+	HTLCSignatureError,
+	HTLCSpendError,
+	HTLCValidationError,
+	htlcErrors,
+	invoiceErrors,
+	musigErrors,
+} from "./errors";
+import { BitcoinUTXO } from "@catalogfi/wallets/dist/src/lib/bitcoin/provider.interface";
+import { Psbt, Transaction, networks, payments, script } from "bitcoinjs-lib";
 import { toOutputScript } from "bitcoinjs-lib/src/address";
-import { Transaction } from "bitcoinjs-lib";
-import { htlcErrors } from "./errors";
+import { ECPairFactory } from "ecpair";
+import {
+	INVOICE_CLTV_SAFETY_MARGIN,
+	INVOICE_MIN_REDEEM_BLOCKS,
+	SEQUENCE_RBF,
+} from "./constants";
+import { InvoiceHTLCOptions, invoiceHTLCParams, parseInvoice, settlesInvoice } from "./bolt11";
+import { bech32 } from "bech32";
+import { broadcastRefund, inspectRefund, parseRefund, serializeRefund } from "./refund";
+import { TaprootSigner, keySigner, walletBackend, walletSigner } from "./signer";
+import * as ecc from "tiny-secp256k1";
 
-describe("Bitcoin HTLC", () => {
-	console.log(
-		"nigiri is required to run these tests successfully. Please make sure it is running."
-	);
+const ECPair = ECPairFactory(ecc);
 
+describe("Bitcoin HTLC", () => {
 	const secret = randomBytes(32);
 	const secretHash = sha256(Buffer.from(secret)).toString("hex");
 	const amount = 5000;
 	const fee = 1000;
-	const provider = new BitcoinProvider(BitcoinNetwork.Regtest, "http://localhost:30000");
+	const provider = new MockBitcoinChain();
 
 	it("should be able initiate and redeem with secret", async () => {
 		const alice = BitcoinWallet.createRandom(provider);
@@ -31,10 +60,16 @@ describe("Bitcoin HTLC", () => {
 		const alicePubkey = await pubkey(alice);
 		const bobPubkey = await pubkey(bob);
 		const expiry = 7200;
-		await regTestUtils.fund(await alice.getAddress(), provider);
+		await provider.fund(await alice.getAddress());
 		const aliceHTLC = await HTLC.from(alice, secretHash, alicePubkey, bobPubkey, expiry);
+		expect(await aliceHTLC.status()).to.deep.eq({ state: HTLCState.UNFUNDED });
 		await aliceHTLC.initiate(amount, fee);
 		const bobHTLC = await HTLC.from(bob, secretHash, alicePubkey, bobPubkey, expiry);
+		expect(await bobHTLC.status()).to.deep.eq({
+			state: HTLCState.FUNDED,
+			amount,
+			confirmations: 0,
+		});
 
 		const wrongSecret = randomBytes(32);
 		await expect(
@@ -47,6 +82,15 @@ describe("Bitcoin HTLC", () => {
 		expect(tx).to.be.an("object");
 		expect(tx.txid).to.be.eq(hash);
 		expect(tx.vout[0].scriptpubkey_address).to.be.equal(await bob.getAddress());
+		// replaceability is opt-in
+		expect(tx.vin[0].sequence).to.be.eq(0xffffffff);
+
+		// initiator learns the secret from the redeem
+		expect(await aliceHTLC.status()).to.deep.eq({
+			state: HTLCState.REDEEMED,
+			txid: hash,
+			secret: Buffer.from(secret).toString("hex"),
+		});
 	});
 
 	it("should be able to instantly refund", async () => {
@@ -57,20 +101,27 @@ describe("Bitcoin HTLC", () => {
 		const bobPubkey = await pubkey(bob);
 
 		const expiry = 7200;
-		await regTestUtils.fund(await alice.getAddress(), provider);
+		await provider.fund(await alice.getAddress());
 
 		const aliceHTLC = await HTLC.from(alice, secretHash, alicePubkey, bobPubkey, expiry);
 		const initTxId = await aliceHTLC.initiate(amount, fee);
 
-		const bobSigs = await generateSigsForBob(aliceHTLC, bob, await alice.getAddress(), fee);
+		const bobHTLC = await HTLC.from(bob, secretHash, alicePubkey, bobPubkey, expiry);
+		const bobSigs = await bobHTLC.signInstantRefund(await alice.getAddress(), fee);
 		expect(bobSigs).to.be.an("array");
 		expect(bobSigs[0].utxo).to.be.eq(initTxId);
 
+		await aliceHTLC.verifyInstantRefundSigs(bobSigs, await alice.getAddress(), fee);
+		// signatures are bound to the refund address
+		await expect(
+			aliceHTLC.verifyInstantRefundSigs(bobSigs, await bob.getAddress(), fee)
+		).to.be.rejectedWith(htlcErrors.invalidCounterpartySigForUTXO(initTxId));
+
 		// corrupt the signatures and test for failure
 
 		let corruptedSigs = bobSigs.map((sig) => {
 			return {
-				utxo: sig.utxo,
+				...sig,
 				sig: Buffer.from(sig.sig, "hex").reverse().toString("hex"),
 			};
 		});
@@ -81,8 +132,8 @@ describe("Bitcoin HTLC", () => {
 		// corrupt the utxo and test for failure
 		const corruptedUtxos = bobSigs.map((sig) => {
 			return {
+				...sig,
 				utxo: "0".repeat(64),
-				sig: sig.sig,
 			};
 		});
 		// fails as the utxos used are not the same
@@ -91,6 +142,10 @@ describe("Bitcoin HTLC", () => {
 		);
 
 		const hash = await aliceHTLC.instantRefund(bobSigs, fee);
+		expect(await aliceHTLC.status()).to.deep.eq({
+			state: HTLCState.INSTANT_REFUNDED,
+			txid: hash,
+		});
 
 		const tx = await provider.getTransaction(hash);
 		expect(tx).to.be.an("object");
@@ -107,7 +162,7 @@ describe("Bitcoin HTLC", () => {
 
 		const expiry = 1;
 
-		await regTestUtils.fund(await alice.getAddress(), provider);
+		await provider.fund(await alice.getAddress());
 
 		const aliceHTLC = await HTLC.from(alice, secretHash, alicePubkey, bobPubkey, expiry);
 
@@ -121,7 +176,7 @@ describe("Bitcoin HTLC", () => {
 		// should not be able to refund before expiry
 		await expect(aliceHTLC.refund()).to.be.rejectedWith(htlcErrors.htlcNotExpired(2));
 
-		await regTestUtils.mine(2, provider);
+		await provider.mine(2);
 
 		const hash = await aliceHTLC.refund();
 
@@ -129,55 +184,1741 @@ describe("Bitcoin HTLC", () => {
 		expect(refundTx).to.be.an("object");
 		expect(refundTx.txid).to.be.eq(hash);
 		expect(refundTx.vout[0].scriptpubkey_address).to.be.equal(await alice.getAddress());
+		expect(await aliceHTLC.status()).to.deep.eq({ state: HTLCState.REFUNDED, txid: hash });
+	});
+
+	it("should instantly refund two outputs of the same funding transaction", async () => {
+		const aliceKey = ECPair.makeRandom();
+		const alice = BitcoinWallet.fromPrivateKey(
+			aliceKey.privateKey!.toString("hex"),
+			provider
+		);
+		const bob = BitcoinWallet.createRandom(provider);
+		const aliceAddress = await alice.getAddress();
+		const fundTxid = await provider.fund(aliceAddress, 20_000);
+
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			7200
+		);
+		const bobHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			7200
+		);
+		// a top-up batched with the funding pays the HTLC address twice
+		const psbt = new Psbt({ network: networks.regtest });
+		psbt.addInput({
+			hash: fundTxid,
+			index: 0,
+			witnessUtxo: {
+				script: toOutputScript(aliceAddress, networks.regtest),
+				value: 20_000,
+			},
+		});
+		psbt.addOutput({ address: aliceHTLC.address(), value: amount });
+		psbt.addOutput({ address: aliceHTLC.address(), value: amount });
+		psbt.signAllInputs(aliceKey).finalizeAllInputs();
+		const initTxId = await provider.broadcast(psbt.extractTransaction().toHex());
+
+		const bobSigs = await bobHTLC.signInstantRefund(aliceAddress, fee);
+		expect(bobSigs.map(({ utxo, vout }) => ({ utxo, vout }))).to.have.deep.members([
+			{ utxo: initTxId, vout: 0 },
+			{ utxo: initTxId, vout: 1 },
+		]);
+		const swapped = bobSigs.map((sig, i) => ({ ...sig, sig: bobSigs[1 - i].sig }));
+		await expect(aliceHTLC.instantRefund(swapped, fee)).to.be.rejectedWith(
+			HTLCSignatureError,
+			htlcErrors.invalidCounterpartySigForUTXO(`${initTxId}:`)
+		);
+
+		const hash = await aliceHTLC.instantRefund(bobSigs, fee);
+		const tx = await provider.getTransaction(hash);
+		expect(tx.vin).to.have.length(2);
+		expect(tx.vout[0].value).to.be.eq(2 * amount - fee);
+		expect(await aliceHTLC.status()).to.deep.eq({
+			state: HTLCState.INSTANT_REFUNDED,
+			txid: hash,
+		});
+	});
+
+	it("should presign a refund which can be broadcast after expiry", async () => {
+		const alice = BitcoinWallet.createRandom(provider);
+		const bob = BitcoinWallet.createRandom(provider);
+		await provider.fund(await alice.getAddress());
+
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			1
+		);
+		const refundAddress = await bob.getAddress();
+		const { txid, refund } = await aliceHTLC.initiate(amount, fee, {
+			address: refundAddress,
+			feeRate: 2,
+		});
+		expect(refund.utxo).to.deep.eq({ txid, vout: 0, value: amount });
+
+		const stored = parseRefund(serializeRefund(refund));
+		expect(stored).to.deep.eq(refund);
+		const details = inspectRefund(stored, networks.regtest);
+		expect(details.lock).to.deep.eq({ blocks: 1 });
+		expect(details.outputs).to.deep.eq([
+			{ address: refundAddress, amount: amount - details.fee },
+		]);
+		expect(details.feeRate).to.be.closeTo(2, 0.1);
+
+		await expect(broadcastRefund(serializeRefund(refund), provider)).to.be.rejectedWith(
+			/non-BIP68-final/
+		);
+		await provider.mine(1);
+		expect(await broadcastRefund(serializeRefund(refund), provider)).to.eq(details.txid);
+
+		expect(() => parseRefund("{}"))
+			.to.throw(HTLCParamsError)
+			.with.property("code", HTLCErrorCode.INVALID_PRESIGNED_REFUND);
+		expect(() =>
+			parseRefund(JSON.stringify({ ...refund, utxo: { ...refund.utxo, vout: 1 } }))
+		)
+			.to.throw(HTLCParamsError)
+			.with.property("code", HTLCErrorCode.INVALID_PRESIGNED_REFUND);
+	});
+
+	it("should fund the HTLC from an external wallet through a PSBT", async () => {
+		const aliceKey = ECPair.makeRandom();
+		const alice = BitcoinWallet.fromPrivateKey(
+			aliceKey.privateKey!.toString("hex"),
+			provider
+		);
+		const bob = BitcoinWallet.createRandom(provider);
+		const aliceAddress = await alice.getAddress();
+		await provider.fund(aliceAddress, 20_000);
+		await provider.fund(aliceAddress, 30_000);
+
+		const htlc = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			10
+		);
+		const inputs = (await provider.getUTXOs(aliceAddress)).map((utxo) => ({
+			...utxo,
+			address: aliceAddress,
+		}));
+		const swapId = sha256(Buffer.from("order-1")).toString("hex");
+		const psbt = htlc.fundingPsbt(amount, {
+			inputs,
+			changeAddress: aliceAddress,
+			feeRate: 2,
+			swapId,
+		});
+		expect(psbt.inputCount).to.eq(2);
+		const [htlcOutput, change, commitment] = psbt.txOutputs;
+		expect(htlcOutput).to.include({ address: htlc.address(), value: amount });
+		expect(change.address).to.eq(aliceAddress);
+		expect(script.toASM(commitment.script)).to.eq(`OP_RETURN ${swapId}`);
+
+		psbt.signAllInputs(aliceKey).finalizeAllInputs();
+		const tx = psbt.extractTransaction();
+		expect(psbt.getFeeRate()).to.be.within(2, 2.1);
+		expect(htlc.verifyFunding(tx.toHex(), amount, swapId)).to.eq(0);
+		await provider.broadcast(tx.toHex());
+		expect(await provider.getBalance(htlc.address())).to.eq(amount);
+
+		const verifyError = (fn: () => unknown, code: HTLCErrorCode) =>
+			expect(fn).to.throw(HTLCError).with.property("code", code);
+		verifyError(
+			() => htlc.verifyFunding(tx.toHex(), amount + 1),
+			HTLCErrorCode.FUNDING_OUTPUT_MISMATCH
+		);
+		verifyError(
+			() => htlc.verifyFunding(tx.toHex(), amount, "00"),
+			HTLCErrorCode.SWAP_ID_NOT_COMMITTED
+		);
+		verifyError(
+			() =>
+				htlc.fundingPsbt(amount, {
+					inputs,
+					changeAddress: aliceAddress,
+					fee,
+					swapId: "0x1",
+				}),
+			HTLCErrorCode.INVALID_SWAP_ID
+		);
+		verifyError(
+			() => htlc.fundingPsbt(60_000, { inputs, changeAddress: aliceAddress, feeRate: 2 }),
+			HTLCErrorCode.INSUFFICIENT_FUNDING_INPUTS
+		);
+		const legacyAddress = payments.p2pkh({
+			pubkey: aliceKey.publicKey,
+			network: networks.regtest,
+		}).address!;
+		const legacyInputs = [{ ...inputs[0], address: legacyAddress }];
+		verifyError(
+			() =>
+				htlc.fundingPsbt(amount, {
+					inputs: legacyInputs,
+					changeAddress: aliceAddress,
+					feeRate: 2,
+				}),
+			HTLCErrorCode.FUNDING_INPUT_UNSUPPORTED
+		);
+		verifyError(
+			() =>
+				htlc.fundingPsbt(amount, {
+					inputs: legacyInputs,
+					changeAddress: aliceAddress,
+					fee,
+				}),
+			HTLCErrorCode.FUNDING_INPUT_TX_REQUIRED
+		);
+	});
+
+	it("should be able to redeem with an externally signed PSBT", async () => {
+		const alice = BitcoinWallet.createRandom(provider);
+		const bobKey = ECPair.makeRandom();
+		const bob = BitcoinWallet.fromPrivateKey(bobKey.privateKey!.toString("hex"), provider);
+
+		const alicePubkey = await pubkey(alice);
+		const bobPubkey = await pubkey(bob);
+		const expiry = 7200;
+		await provider.fund(await alice.getAddress());
+		const aliceHTLC = await HTLC.from(alice, secretHash, alicePubkey, bobPubkey, expiry);
+		await aliceHTLC.initiate(amount, fee);
+		const bobHTLC = await HTLC.from(bob, secretHash, alicePubkey, bobPubkey, expiry);
+
+		const psbt = await bobHTLC.redeemPsbt(fee);
+		expect(psbt.data.inputs[0].witnessUtxo?.value).to.be.eq(amount);
+		expect(psbt.data.inputs[0].tapLeafScript).to.have.length(1);
+
+		psbt.signAllInputs(bobKey);
+
+		expect(() => bobHTLC.finalizePsbt(psbt)).to.throw(htlcErrors.secretRequired);
+
+		const txHex = bobHTLC.finalizePsbt(psbt, Buffer.from(secret).toString("hex"));
+		const hash = await provider.broadcast(txHex);
+
+		const tx = await provider.getTransaction(hash);
+		expect(tx.vout[0].scriptpubkey_address).to.be.equal(await bob.getAddress());
+	});
+
+	it("should bump the fee of a stuck redeem", async () => {
+		const alice = BitcoinWallet.createRandom(provider);
+		const bobKey = ECPair.makeRandom();
+		const bob = BitcoinWallet.fromPrivateKey(bobKey.privateKey!.toString("hex"), provider);
+
+		const alicePubkey = await pubkey(alice);
+		const bobPubkey = await pubkey(bob);
+		const expiry = 7200;
+		await provider.fund(await alice.getAddress());
+		const aliceHTLC = await HTLC.from(alice, secretHash, alicePubkey, bobPubkey, expiry);
+		await aliceHTLC.initiate(amount, fee);
+		const bobHTLC = await HTLC.from(bob, secretHash, alicePubkey, bobPubkey, expiry);
+
+		const stuck = await bobHTLC.redeem(
+			Buffer.from(secret).toString("hex"),
+			{ feeRate: 1 },
+			undefined,
+			true
+		);
+		const child = await bobHTLC.cpfpPsbt(stuck, 10);
+		await provider.broadcast(
+			child.signAllInputs(bobKey).finalizeAllInputs().extractTransaction().toHex()
+		);
+
+		// replacing the parent evicts its child
+		const hash = await bobHTLC.bumpFee(stuck, { feeRate: 20 });
+		await expect(provider.getTransaction(stuck)).to.be.rejectedWith(/not found/);
+		expect(await aliceHTLC.status()).to.deep.eq({
+			state: HTLCState.REDEEMED,
+			txid: hash,
+			secret: Buffer.from(secret).toString("hex"),
+		});
+		await expect(bobHTLC.bumpFee(hash, { feeRate: 20 })).to.be.rejectedWith(
+			HTLCSpendError,
+			/should be at least/
+		);
+	});
+
+	it("should bump the fee of a stuck refund of a relative time expiry", async () => {
+		const alice = BitcoinWallet.createRandom(provider);
+		const bob = BitcoinWallet.createRandom(provider);
+		const backend = {
+			...walletBackend(alice),
+			getMedianTimePast: (height?: number) => provider.getMedianTimePast(height),
+		};
+		await provider.fund(await alice.getAddress());
+		const aliceHTLC = await HTLC.fromSigner(walletSigner(alice), backend, {
+			secretHash,
+			initiatorPubkey: await pubkey(alice),
+			redeemerPubkey: await pubkey(bob),
+			expiry: 2,
+			expiryType: ExpiryType.RELATIVE_TIME,
+		});
+		await aliceHTLC.initiate(amount, fee);
+		await provider.mine(11);
+
+		const stuck = await aliceHTLC.refund({ feeRate: 1 }, undefined, true);
+		const hash = await aliceHTLC.bumpFee(stuck, { feeRate: 20 });
+		await expect(provider.getTransaction(stuck)).to.be.rejectedWith(/not found/);
+		expect(await aliceHTLC.status()).to.deep.eq({ state: HTLCState.REFUNDED, txid: hash });
+	});
+
+	it("should refund many HTLCs with relative time expiries in a single transaction", async () => {
+		const alice = BitcoinWallet.createRandom(provider);
+		const bob = BitcoinWallet.createRandom(provider);
+		const backend = {
+			...walletBackend(alice),
+			getMedianTimePast: (height?: number) => provider.getMedianTimePast(height),
+		};
+		await provider.fund(await alice.getAddress());
+
+		const htlcs: HTLC[] = [];
+		for (let i = 0; i < 2; i++) {
+			const htlc = await HTLC.fromSigner(walletSigner(alice), backend, {
+				secretHash: sha256(Buffer.from(randomBytes(32))).toString("hex"),
+				initiatorPubkey: await pubkey(alice),
+				redeemerPubkey: await pubkey(bob),
+				expiry: 2,
+				expiryType: ExpiryType.RELATIVE_TIME,
+			});
+			await htlc.initiate(amount, fee);
+			htlcs.push(htlc);
+		}
+		await provider.mine();
+
+		const spends = htlcs.map((htlc) => ({ htlc }));
+		await expect(HTLC.batch(spends, fee)).to.be.rejectedWith(HTLCExpiryError);
+
+		await provider.mine(10);
+		const hash = await HTLC.batch(spends, fee);
+		for (const htlc of htlcs) {
+			expect(await htlc.status()).to.deep.eq({ state: HTLCState.REFUNDED, txid: hash });
+		}
+	});
+
+	it("should reject invalid spends on the mock chain", async () => {
+		const alice = BitcoinWallet.createRandom(provider);
+		const bob = BitcoinWallet.createRandom(provider);
+
+		const alicePubkey = await pubkey(alice);
+		const bobPubkey = await pubkey(bob);
+		const expiry = 10;
+		await provider.fund(await alice.getAddress());
+		const aliceHTLC = await HTLC.from(alice, secretHash, alicePubkey, bobPubkey, expiry);
+		await aliceHTLC.initiate(amount, fee);
+		const bobHTLC = await HTLC.from(bob, secretHash, alicePubkey, bobPubkey, expiry);
+
+		const opts = {
+			utxos: await provider.getUTXOs(aliceHTLC.address()),
+			tipHeight: await provider.getLatestTip(),
+			fee,
+		};
+		const redeemTx = Transaction.fromHex(
+			await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), opts)
+		);
+
+		const forged = Transaction.fromHex(redeemTx.toHex());
+		forged.ins[0].witness[0] = Buffer.from(forged.ins[0].witness[0]).reverse();
+		await expect(provider.broadcast(forged.toHex())).to.be.rejectedWith(
+			/Invalid Schnorr signature/
+		);
+
+		const wrongSecret = Transaction.fromHex(redeemTx.toHex());
+		wrongSecret.ins[0].witness[1] = Buffer.from(randomBytes(32));
+		await expect(provider.broadcast(wrongSecret.toHex())).to.be.rejectedWith(
+			/OP_EQUALVERIFY/
+		);
+
+		// built as if the funding had confirmed long ago, the node enforces the relative locktime
+		const earlyRefund = await aliceHTLC.buildRefundTx({
+			utxos: opts.utxos.map((utxo) => ({
+				...utxo,
+				status: { confirmed: true, block_height: opts.tipHeight },
+			})),
+			tipHeight: opts.tipHeight + expiry,
+			fee,
+		});
+		await expect(provider.broadcast(earlyRefund)).to.be.rejectedWith(/non-BIP68-final/);
+
+		const hash = await provider.broadcast(redeemTx.toHex());
+		await expect(provider.broadcast(redeemTx.toHex())).to.be.rejectedWith(
+			/txn-already-known/
+		);
+		await provider.mine(expiry);
+		await expect(aliceHTLC.refund()).to.be.rejectedWith(htlcErrors.notFunded);
+		expect(await provider.getConfirmations(hash)).to.be.eq(expiry);
+	});
+
+	it("should swap from Lightning with a HTLC locked to the invoice", async () => {
+		const alice = BitcoinWallet.createRandom(provider);
+		const bob = BitcoinWallet.createRandom(provider);
+		await provider.fund(await alice.getAddress());
+
+		// bob pays the invoice of alice, locked to a preimage only bob knows
+		const preimage = Buffer.from(randomBytes(32));
+		const paymentHash = sha256(preimage);
+		const payee = ECPair.makeRandom();
+		const invoice = encodeInvoice(
+			"lnbcrt50u",
+			[
+				[1, paymentHash],
+				[24, 40],
+			],
+			payee.privateKey!
+		);
+		const parsed = parseInvoice(invoice);
+		expect(parsed).to.deep.include({
+			currency: "bcrt",
+			amountMsat: 5_000_000n,
+			expiry: 3600,
+			paymentHash: paymentHash.toString("hex"),
+			minFinalCltvExpiry: 40,
+			payeePubkey: payee.publicKey.toString("hex"),
+		});
+
+		const opts = {
+			initiatorPubkey: await pubkey(alice),
+			redeemerPubkey: await pubkey(bob),
+		};
+		const aliceHTLC = await HTLC.fromInvoice(alice, invoice, opts);
+		const bobHTLC = await HTLC.fromInvoice(bob, invoice, opts);
+		const expected = await HTLC.from(
+			alice,
+			paymentHash.toString("hex"),
+			opts.initiatorPubkey,
+			opts.redeemerPubkey,
+			(await provider.getLatestTip()) + 40 - INVOICE_CLTV_SAFETY_MARGIN,
+			ExpiryType.ABSOLUTE
+		);
+		expect(aliceHTLC.address()).to.be.eq(expected.address());
+
+		await aliceHTLC.initiate(5000, fee);
+		await bobHTLC.redeem(preimage.toString("hex"));
+
+		// alice settles the invoice with the preimage revealed by the redeem
+		const status = await aliceHTLC.status();
+		expect(status.state).to.be.eq(HTLCState.REDEEMED);
+		if (status.state !== HTLCState.REDEEMED) return;
+		expect(settlesInvoice(parsed, status.secret)).to.be.true;
+		expect(settlesInvoice(parsed, Buffer.from(randomBytes(32)).toString("hex"))).to.be
+			.false;
+	});
+
+	it("should refund a HTLC locked to an invoice before the invoice times out", async () => {
+		const alice = BitcoinWallet.createRandom(provider);
+		const bob = BitcoinWallet.createRandom(provider);
+		await provider.fund(await alice.getAddress());
+
+		const payee = ECPair.makeRandom();
+		const invoice = encodeInvoice(
+			"lnbcrt50u",
+			[
+				[1, sha256(Buffer.from(randomBytes(32)))],
+				[24, 40],
+			],
+			payee.privateKey!
+		);
+		// the payment of the invoice would time out at this height
+		const timeout = (await provider.getLatestTip()) + 40;
+		const aliceHTLC = await HTLC.fromInvoice(alice, invoice, {
+			initiatorPubkey: await pubkey(alice),
+			redeemerPubkey: await pubkey(bob),
+		});
+
+		// the funding confirms late, the refund still opens at the same height
+		await provider.mine(20);
+		await aliceHTLC.initiate(5000, fee);
+		await provider.mine();
+		await expect(aliceHTLC.refund()).to.be.rejectedWith(HTLCExpiryError);
+
+		const refundHeight = timeout - INVOICE_CLTV_SAFETY_MARGIN;
+		await provider.mine(refundHeight - (await provider.getLatestTip()));
+		const hash = await aliceHTLC.refund();
+		expect(Transaction.fromHex(await provider.getTransactionHex(hash)).locktime).to.be.eq(
+			refundHeight
+		);
+		expect(await aliceHTLC.status()).to.deep.eq({ state: HTLCState.REFUNDED, txid: hash });
 	});
 });
 
-const pubkey = async (wallet: IBitcoinWallet) => {
-	return (await wallet.getPublicKey()).slice(2);
-};
+describe("Bitcoin HTLC offline", () => {
+	const secret = randomBytes(32);
+	const secretHash = sha256(Buffer.from(secret)).toString("hex");
+	const provider = new MockBitcoinChain();
+	const expiry = 10;
 
-const generateSigsForBob = async (
-	htlc: HTLC,
-	bob: IBitcoinWallet,
-	initiatorAddress: string,
-	fee: number
-) => {
-	const network = await bob.getNetwork();
-	const output = toOutputScript(htlc.address(), network);
-	const provider = await bob.getProvider();
+	const alice = BitcoinWallet.createRandom(provider);
+	const bob = BitcoinWallet.createRandom(provider);
 
-	const utxos = await provider.getUTXOs(htlc.address());
+	const utxos: BitcoinUTXO[] = [
+		{
+			txid: "11".repeat(32),
+			vout: 0,
+			value: 5000,
+			status: { confirmed: true, block_height: 100 },
+		},
+		{
+			txid: "22".repeat(32),
+			vout: 1,
+			value: 7000,
+			status: { confirmed: true, block_height: 105 },
+		},
+	];
 
-	const tx = new Transaction();
-	tx.version = 2;
+	it("should build a redeem transaction from the given utxos", async () => {
+		const bobHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
 
-	for (let i = 0; i < utxos.length; i++) {
-		tx.addInput(Buffer.from(utxos[i].txid, "hex").reverse(), utxos[i].vout);
-	}
+		const tx = Transaction.fromHex(
+			await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+			})
+		);
+		expect(tx.ins).to.have.length(2);
+		expect(Buffer.from(tx.ins[1].hash).reverse().toString("hex")).to.be.eq(utxos[1].txid);
+		expect(tx.ins[1].index).to.be.eq(utxos[1].vout);
+		expect(tx.ins[0].witness[1].toString("hex")).to.be.eq(
+			Buffer.from(secret).toString("hex")
+		);
+		expect(tx.outs[0].value).to.be.eq(11000);
+		expect(tx.outs[0].script).to.deep.eq(
+			toOutputScript(await bob.getAddress(), networks.regtest)
+		);
+	});
+
+	it("should compute the fee from the fee rate", async () => {
+		const bobHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+		const feeRate = 3;
 
-	const amount = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+		const tx = Transaction.fromHex(
+			await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				feeRate,
+				tipHeight: 105,
+			})
+		);
+		expect(12000 - tx.outs[0].value).to.be.eq(Math.ceil(tx.virtualSize() * feeRate));
+		expect(
+			bobHTLC.estimateSpendVsize(Leaf.REDEEM, utxos.length, [await bob.getAddress()])
+		).to.be.eq(tx.virtualSize());
+
+		await expect(
+			bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				tipHeight: 105,
+			})
+		).to.be.rejectedWith(htlcErrors.feeOrFeeRateRequired);
+	});
+
+	it("should split the funds between the given outputs", async () => {
+		const bobHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+		const coldStorage = BitcoinWallet.createRandom(provider);
+		const protocol = BitcoinWallet.createRandom(provider);
+
+		const tx = Transaction.fromHex(
+			await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+				outputs: [
+					{ address: await protocol.getAddress(), amount: 300 },
+					{ address: await coldStorage.getAddress(), change: true },
+				],
+			})
+		);
+		expect(tx.outs.map((out) => out.value)).to.deep.eq([300, 10700]);
+		expect(tx.outs[1].script).to.deep.eq(
+			toOutputScript(await coldStorage.getAddress(), networks.regtest)
+		);
+
+		await expect(
+			bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+				outputs: [{ address: await protocol.getAddress(), amount: 300 }],
+			})
+		).to.be.rejectedWith(htlcErrors.singleChangeOutputRequired);
+
+		await expect(
+			bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+				outputs: [
+					{ address: await protocol.getAddress(), amount: 11000 },
+					{ address: await coldStorage.getAddress(), change: true },
+				],
+			})
+		).to.be.rejectedWith(htlcErrors.outputsExceedBalance(12000, 12000));
+	});
+
+	it("should redeem and refund many HTLCs in a single transaction", async () => {
+		const secrets = [randomBytes(32), randomBytes(32)].map((s) =>
+			Buffer.from(s).toString("hex")
+		);
+		const redeemHTLCs: HTLC[] = [];
+		for (const s of secrets) {
+			redeemHTLCs.push(
+				await HTLC.from(
+					bob,
+					sha256(Buffer.from(s, "hex")).toString("hex"),
+					await pubkey(alice),
+					await pubkey(bob),
+					expiry
+				)
+			);
+		}
+		const refundHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+		const spends = [
+			{ htlc: redeemHTLCs[0], secret: secrets[0], utxos: [utxos[0]] },
+			{ htlc: redeemHTLCs[1], secret: secrets[1], utxos: [utxos[1]] },
+			{
+				htlc: refundHTLC,
+				utxos: [{ ...utxos[0], txid: "33".repeat(32) }],
+			},
+		];
+
+		const tx = Transaction.fromHex(
+			await HTLC.buildBatchTx(spends, { feeRate: 3, tipHeight: 110 })
+		);
+		expect(tx.ins).to.have.length(3);
+		expect(tx.outs).to.have.length(1);
+		expect(tx.outs[0].script).to.deep.eq(
+			toOutputScript(await bob.getAddress(), networks.regtest)
+		);
+		expect(tx.outs[0].value).to.be.eq(17000 - tx.virtualSize() * 3);
+
+		// each input is signed for its own leaf
+		expect(redeemHTLCs[0].extractSecret(tx.toHex())).to.be.eq(secrets[0]);
+		expect(redeemHTLCs[1].extractSecret(tx.toHex())).to.be.eq(secrets[1]);
+		expect(tx.ins[2].sequence).to.be.eq(expiry);
+		const prevouts = spends.map(({ htlc }) =>
+			toOutputScript(htlc.address(), networks.regtest)
+		);
+		const values = spends.map(({ utxos }) => utxos[0].value);
+		const signers = [bob, bob, alice];
+		const leaves = [Leaf.REDEEM, Leaf.REDEEM, Leaf.REFUND];
+		for (let i = 0; i < tx.ins.length; i++) {
+			const hash = tx.hashForWitnessV1(
+				i,
+				prevouts,
+				values,
+				Transaction.SIGHASH_DEFAULT,
+				spends[i].htlc.leafHash(leaves[i])
+			);
+			const signerPubkey = Buffer.from(await pubkey(signers[i]), "hex");
+			expect(ecc.verifySchnorr(hash, signerPubkey, tx.ins[i].witness[0])).to.be.true;
+		}
+		expect(HTLC.validateBatchTx(tx.toHex(), spends)).to.deep.eq([]);
+
+		// the refunded HTLC has to be expired
+		await expect(
+			HTLC.buildBatchTx(spends, { feeRate: 3, tipHeight: 105 })
+		).to.be.rejectedWith(htlcErrors.htlcNotExpired(6));
+		await expect(
+			HTLC.buildBatchTx([{ ...spends[0], secret: secrets[1] }], {
+				feeRate: 3,
+				tipHeight: 110,
+			})
+		).to.be.rejectedWith(htlcErrors.secretMismatch);
+	});
+
+	it("should reject spends failing the sanity checks", async () => {
+		const bobHTLC = await HTLC.fromParams(
+			bob,
+			{
+				secretHash,
+				initiatorPubkey: await pubkey(alice),
+				redeemerPubkey: await pubkey(bob),
+				expiry,
+			},
+			{ expectedAmount: 12000 }
+		);
+		const redeem = (opts: Partial<OfflineSpendOptions>) =>
+			bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+				...opts,
+			});
+		const bobAddress = await bob.getAddress();
+
+		await expect(redeem({ fee: 12000 })).to.be.rejectedWith(
+			htlcErrors.feeExceedsBalance(12000, 12000)
+		);
+		await expect(redeem({ fee: -1 })).to.be.rejectedWith(htlcErrors.invalidFee(-1));
+		await expect(redeem({ fee: 5000, maxFeeRate: 10 })).to.be.rejectedWith(
+			"is above the cap of 10 sats/vbyte"
+		);
+		await expect(redeem({ fee: undefined, feeRate: 10, maxFeeRate: 10 })).to.be.fulfilled;
+		await expect(redeem({ fee: 11800 })).to.be.rejectedWith(
+			htlcErrors.dustOutput(bobAddress, 200, 294)
+		);
+		await expect(
+			redeem({
+				outputs: [
+					{ address: bobAddress, amount: 100 },
+					{ address: bobAddress, change: true },
+				],
+			})
+		).to.be.rejectedWith(htlcErrors.dustOutput(bobAddress, 100, 294));
+		await expect(redeem({ utxos: [utxos[1]] })).to.be.rejectedWith(
+			htlcErrors.fundingBelowExpected(7000, 12000)
+		);
+		await expect(redeem({ minConfirmations: 3 })).to.be.rejectedWith(
+			htlcErrors.insufficientConfirmations(utxos[1].txid, 1, 3)
+		);
+		await expect(redeem({ minConfirmations: 3, tipHeight: 107 })).to.be.fulfilled;
+	});
+
+	it("should extract the secret from a redeem transaction", async () => {
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+		const bobHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
 
-	tx.addOutput(toOutputScript(initiatorAddress, network), amount - fee);
+		const redeemTx = await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+			utxos,
+			fee: 1000,
+			tipHeight: 105,
+		});
+		expect(aliceHTLC.extractSecret(redeemTx)).to.be.eq(Buffer.from(secret).toString("hex"));
 
-	const sigs = [];
-	const values = utxos.map((utxo) => utxo.value);
-	const outputs = utxos.map((_) => output);
+		const refundTx = await aliceHTLC.buildRefundTx({ utxos, fee: 1000, tipHeight: 115 });
+		expect(aliceHTLC.extractSecret(refundTx)).to.be.undefined;
+	});
 
-	const hashType = Transaction.SIGHASH_DEFAULT;
+	it("should verify an address against the htlc parameters", async () => {
+		const params = {
+			secretHash,
+			initiatorPubkey: await pubkey(alice),
+			redeemerPubkey: await pubkey(bob),
+			expiry,
+		};
+		const bobHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			params.initiatorPubkey,
+			params.redeemerPubkey,
+			expiry
+		);
+		const address = bobHTLC.address();
 
-	for (let i = 0; i < tx.ins.length; i++) {
-		const hash = tx.hashForWitnessV1(
-			i,
-			outputs,
-			values,
-			hashType,
-			htlc.leafHash(Leaf.INSTANT_REFUND)
+		expect(HTLC.verify(address, params)).to.be.true;
+		expect(HTLC.verify(address, { ...params, expiry: expiry + 1 })).to.be.false;
+		expect(HTLC.verify(address, { ...params, redeemerPubkey: params.initiatorPubkey })).to
+			.be.false;
+		expect(HTLC.verify(await bob.getAddress(), params)).to.be.false;
+
+		// control block and leaf script revealed by a redeem
+		const redeemTx = Transaction.fromHex(
+			await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+			})
 		);
-		const signature = await bob.signSchnorr(hash);
-		sigs.push({
-			utxo: Buffer.from(tx.ins[i].hash).reverse().toString("hex"),
-			sig: signature.toString("hex"),
+		const [, , leafScript, controlBlock] = redeemTx.ins[0].witness;
+		expect(HTLC.verify(address, params, { controlBlock, leafScript })).to.be.true;
+		expect(
+			HTLC.verify(address, params, {
+				controlBlock,
+				leafScript: leafScript.subarray(1),
+			})
+		).to.be.false;
+	});
+
+	it("should watch a HTLC without a signer", async () => {
+		const params = {
+			secretHash,
+			initiatorPubkey: await pubkey(alice),
+			redeemerPubkey: await pubkey(bob),
+			expiry,
+			miniscript: true,
+		};
+		const bobHTLC = await HTLC.fromParams(bob, params);
+		const watcher = HTLC.watchOnly(params, networks.regtest);
+
+		expect(watcher.address()).to.be.eq(bobHTLC.address());
+		expect(watcher.leafHash(Leaf.REDEEM)).to.deep.eq(bobHTLC.leafHash(Leaf.REDEEM));
+		expect(watcher.descriptor()).to.be.eq(bobHTLC.descriptor());
+
+		const secretHex = Buffer.from(secret).toString("hex");
+		const redeemTx = await bobHTLC.buildRedeemTx(secretHex, {
+			utxos,
+			fee: 1000,
+			tipHeight: 105,
 		});
+		expect(watcher.extractSecret(redeemTx)).to.be.eq(secretHex);
+
+		await expect(
+			watcher.buildRedeemTx(secretHex, { utxos, fee: 1000, tipHeight: 105 })
+		).to.be.rejectedWith(htlcErrors.signerRequired);
+		await expect(watcher.status()).to.be.rejectedWith(htlcErrors.backendRequired);
+	});
+
+	it("should blind the internal key of each HTLC", async () => {
+		const params = {
+			secretHash,
+			initiatorPubkey: await pubkey(alice),
+			redeemerPubkey: await pubkey(bob),
+			expiry,
+		};
+		const blinding = deriveBlinding(
+			secretHash,
+			params.initiatorPubkey,
+			params.redeemerPubkey,
+			expiry,
+			ExpiryType.RELATIVE
+		).toString("hex");
+		// HTLCs share the internal key of the existing addresses unless blinded per HTLC
+		const sharedHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			params.initiatorPubkey,
+			params.redeemerPubkey,
+			expiry
+		);
+		expect(sharedHTLC.blinding()).to.be.eq(DEFAULT_BLINDING.toString("hex"));
+		const blindedHTLC = await HTLC.fromParams(bob, { ...params, perHtlcBlinding: true });
+		expect(blindedHTLC.blinding()).to.be.eq(blinding);
+		expect(blindedHTLC.address()).to.not.be.eq(sharedHTLC.address());
+		const explicitHTLC = await HTLC.fromParams(bob, { ...params, blinding });
+		expect(explicitHTLC.address()).to.be.eq(blindedHTLC.address());
+		await expect(
+			HTLC.fromParams(bob, { ...params, blinding, perHtlcBlinding: true })
+		).to.be.rejectedWith(htlcErrors.perHtlcBlindingConflict);
+		// the expiry type and the salt are part of the derivation
+		const absolute = deriveBlinding(
+			secretHash,
+			params.initiatorPubkey,
+			params.redeemerPubkey,
+			expiry,
+			ExpiryType.ABSOLUTE
+		);
+		expect(absolute.toString("hex")).to.not.be.eq(blinding);
+		const salted = deriveBlinding(
+			secretHash,
+			params.initiatorPubkey,
+			params.redeemerPubkey,
+			expiry,
+			ExpiryType.RELATIVE,
+			Buffer.from(randomBytes(32))
+		);
+		expect(salted.toString("hex")).to.not.be.eq(blinding);
+
+		const otherBlinding = Buffer.from(randomBytes(32)).toString("hex");
+		const otherHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			params.initiatorPubkey,
+			params.redeemerPubkey,
+			expiry,
+			ExpiryType.RELATIVE,
+			otherBlinding
+		);
+		expect(otherHTLC.address()).to.not.be.eq(blindedHTLC.address());
+
+		const address = blindedHTLC.address();
+		expect(HTLC.verify(address, { ...params, blinding })).to.be.true;
+		expect(HTLC.verify(address, { ...params, perHtlcBlinding: true })).to.be.true;
+		expect(HTLC.verify(address, params)).to.be.false;
+		expect(HTLC.verify(address, { ...params, blinding: otherBlinding })).to.be.false;
+
+		// the counterparty checks the internal key revealed by a spend is unspendable
+		const redeemTx = Transaction.fromHex(
+			await blindedHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+			})
+		);
+		const internalKey = redeemTx.ins[0].witness[3].subarray(1, 33);
+		expect(isUnspendableInternalKey(internalKey, Buffer.from(blinding, "hex"))).to.be.true;
+		expect(isUnspendableInternalKey(internalKey, Buffer.from(otherBlinding, "hex"))).to.be
+			.false;
+	});
+
+	it("should export and parse a miniscript descriptor", async () => {
+		const params = {
+			secretHash,
+			initiatorPubkey: await pubkey(alice),
+			redeemerPubkey: await pubkey(bob),
+			expiry,
+			miniscript: true,
+		};
+		const bobHTLC = await HTLC.fromParams(bob, params);
+		const descriptor = bobHTLC.descriptor();
+		const [body, checksum] = descriptor.split("#");
+		expect(body).to.be.eq(
+			`tr(${generateInternalkey(Buffer.from(bobHTLC.blinding()!, "hex")).toString(
+				"hex"
+			)},{` +
+				`and_v(v:sha256(${secretHash}),pk(${params.redeemerPubkey})),{` +
+				`and_v(v:older(${expiry}),pk(${params.initiatorPubkey})),` +
+				`multi_a(2,${params.initiatorPubkey},${params.redeemerPubkey})}})`
+		);
+		expect(checksum).to.have.length(8);
+
+		// the leaves compile to the miniscript scripts
+		const redeemTx = Transaction.fromHex(
+			await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+			})
+		);
+		expect(script.toASM(redeemTx.ins[0].witness[2])).to.be.eq(
+			`OP_SIZE 20 OP_EQUALVERIFY OP_SHA256 ${secretHash} OP_EQUALVERIFY ${params.redeemerPubkey} OP_CHECKSIG`
+		);
+
+		const parsed = HTLC.parseDescriptor(descriptor, networks.regtest);
+		expect(parsed.network).to.be.eq(networks.regtest);
+		expect(parsed.params).to.deep.include({ ...params, expiryType: ExpiryType.RELATIVE });
+		expect(HTLC.verify(bobHTLC.address(), parsed.params)).to.be.true;
+
+		for (const variant of [
+			{ expiry: 800_000, expiryType: ExpiryType.ABSOLUTE },
+			{ expiry: 20, expiryType: ExpiryType.RELATIVE_TIME },
+			{ musig: true },
+			{ perHtlcBlinding: true },
+		]) {
+			const htlc = await HTLC.fromParams(bob, { ...params, ...variant });
+			const { params: parsedParams } = HTLC.parseDescriptor(
+				htlc.descriptor(),
+				networks.regtest
+			);
+			expect(HTLC.verify(htlc.address(), parsedParams)).to.be.true;
+		}
+
+		expect(() =>
+			HTLC.parseDescriptor(descriptor.replace("older(10)", "older(11)"))
+		).to.throw(htlcErrors.descriptorChecksumMismatch);
+		expect(() => HTLC.parseDescriptor(`tr(${params.initiatorPubkey})`)).to.throw(
+			htlcErrors.invalidDescriptor
+		);
+		expect(() => HTLC.parseDescriptor(descriptor.split("#")[0])).to.not.throw();
+
+		const legacyHTLC = await HTLC.fromParams(bob, { ...params, miniscript: false });
+		expect(() => legacyHTLC.descriptor()).to.throw(htlcErrors.miniscriptRequired);
+	});
+
+	it("should build a refund transaction only after expiry", async () => {
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+
+		await expect(
+			aliceHTLC.buildRefundTx({ utxos, fee: 1000, tipHeight: 110 })
+		).to.be.rejectedWith(htlcErrors.htlcNotExpired(6));
+
+		const tx = Transaction.fromHex(
+			await aliceHTLC.buildRefundTx({ utxos, fee: 1000, tipHeight: 115 })
+		);
+		expect(tx.ins.map((input) => input.sequence)).to.deep.eq([expiry, expiry]);
+		expect(tx.outs[0].value).to.be.eq(11000);
+
+		const feeRateTx = Transaction.fromHex(
+			await aliceHTLC.buildRefundTx({ utxos, feeRate: 2, tipHeight: 115 })
+		);
+		expect(
+			aliceHTLC.estimateSpendVsize(Leaf.REFUND, utxos.length, [await alice.getAddress()])
+		).to.be.eq(feeRateTx.virtualSize());
+	});
+
+	it("should refund only the expired utxos", async () => {
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+
+		// the second utxo is a late top-up
+		await expect(
+			aliceHTLC.buildRefundTx({ utxos, fee: 1000, tipHeight: 110 })
+		).to.be.rejectedWith(htlcErrors.htlcNotExpired(6));
+
+		const { txHex, locked } = await aliceHTLC.buildPartialRefundTx({
+			utxos,
+			fee: 1000,
+			tipHeight: 110,
+		});
+		const tx = Transaction.fromHex(txHex);
+		expect(tx.ins).to.have.length(1);
+		expect(Buffer.from(tx.ins[0].hash).reverse().toString("hex")).to.be.eq(utxos[0].txid);
+		expect(tx.outs[0].value).to.be.eq(4000);
+		expect(locked).to.deep.eq([{ txid: utxos[1].txid, vout: utxos[1].vout, blocks: 6 }]);
+
+		await expect(
+			aliceHTLC.buildPartialRefundTx({ utxos, fee: 1000, tipHeight: 105 })
+		).to.be.rejectedWith(htlcErrors.htlcNotExpired(6));
+	});
+
+	it("should bump the fee of a stuck redeem and refund", async () => {
+		const bobHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+		const stuck = await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+			utxos,
+			fee: 500,
+			tipHeight: 105,
+		});
+
+		const replacement = Transaction.fromHex(
+			await bobHTLC.buildBumpedTx(stuck, { utxos, feeRate: 10, tipHeight: 105 })
+		);
+		expect(replacement.ins.map((input) => input.sequence)).to.deep.eq([
+			SEQUENCE_RBF,
+			SEQUENCE_RBF,
+		]);
+		expect(12000 - replacement.outs[0].value).to.be.eq(
+			Math.ceil(replacement.virtualSize() * 10)
+		);
+		expect(replacement.outs[0].script).to.deep.eq(
+			Transaction.fromHex(stuck).outs[0].script
+		);
+		expect(bobHTLC.extractSecret(replacement.toHex())).to.be.eq(
+			Buffer.from(secret).toString("hex")
+		);
+
+		await expect(
+			bobHTLC.buildBumpedTx(stuck, { utxos, fee: 501, tipHeight: 105 })
+		).to.be.rejectedWith(HTLCSpendError, /should be at least/);
+		await expect(
+			bobHTLC.buildBumpedTx(stuck, { utxos: utxos.slice(1), fee: 5000, tipHeight: 105 })
+		).to.be.rejectedWith(htlcErrors.spentUtxoNotFound(utxos[0].txid, utxos[0].vout));
+
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+		const stuckRefund = await aliceHTLC.buildRefundTx({ utxos, fee: 500, tipHeight: 115 });
+		const refundReplacement = Transaction.fromHex(
+			await aliceHTLC.buildBumpedTx(stuckRefund, { utxos, fee: 2000, tipHeight: 115 })
+		);
+		// the csv sequence already signals replaceability
+		expect(refundReplacement.ins.map((input) => input.sequence)).to.deep.eq([
+			expiry,
+			expiry,
+		]);
+		expect(refundReplacement.outs[0].value).to.be.eq(10000);
+	});
+
+	it("should build a child paying for a stuck redeem", async () => {
+		const bobKey = ECPair.makeRandom();
+		const bob = BitcoinWallet.fromPrivateKey(bobKey.privateKey!.toString("hex"), provider);
+		const bobHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+		const parent = Transaction.fromHex(
+			await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+				utxos,
+				fee: 500,
+				tipHeight: 105,
+			})
+		);
+
+		const psbt = bobHTLC.buildCpfpPsbt(parent.toHex(), {
+			parentFee: 500,
+			vout: 0,
+			feeRate: 20,
+		});
+		psbt.signAllInputs(bobKey).finalizeAllInputs();
+		const child = psbt.extractTransaction();
+
+		const childFee = parent.outs[0].value - child.outs[0].value;
+		const packageVsize = parent.virtualSize() + child.virtualSize();
+		expect(child.ins[0].sequence).to.be.eq(SEQUENCE_RBF);
+		expect(child.outs[0].script).to.deep.eq(parent.outs[0].script);
+		// the placeholder witness may overestimate the DER signature by a byte
+		expect((500 + childFee) / packageVsize).to.be.within(20, 20.5);
+
+		expect(() =>
+			bobHTLC.buildCpfpPsbt(parent.toHex(), { parentFee: 500, vout: 1, feeRate: 20 })
+		).to.throw(htlcErrors.cpfpOutputUnsupported(1));
+
+		// the fee rate cap of the HTLC applies to the package
+		const cappedHTLC = await HTLC.fromParams(
+			bob,
+			{
+				secretHash,
+				initiatorPubkey: await pubkey(alice),
+				redeemerPubkey: await pubkey(bob),
+				expiry,
+			},
+			{ maxFeeRate: 10 }
+		);
+		expect(() =>
+			cappedHTLC.buildCpfpPsbt(parent.toHex(), { parentFee: 500, vout: 0, feeRate: 20 })
+		).to.throw(HTLCSpendError, "is above the cap of 10 sats/vbyte");
+	});
+
+	it("should sign with a pluggable taproot signer", async () => {
+		const bobKey = ECPair.makeRandom();
+		const signed: Buffer[] = [];
+		// e.g. a HSM which only exposes its pubkey and bip340 signatures
+		const signer: TaprootSigner = {
+			getXOnlyPubkey: async () => bobKey.publicKey.subarray(1).toString("hex"),
+			signSchnorr: async (hash) => {
+				signed.push(hash);
+				return bobKey.signSchnorr(hash);
+			},
+		};
+		const bobHTLC = await HTLC.fromSigner(signer, walletBackend(bob), {
+			secretHash,
+			initiatorPubkey: await pubkey(alice),
+			redeemerPubkey: await signer.getXOnlyPubkey(),
+			expiry,
+		});
+		const secretHex = Buffer.from(secret).toString("hex");
+		const outputs = [{ address: await bob.getAddress(), change: true as const }];
+
+		const tx = Transaction.fromHex(
+			await bobHTLC.buildRedeemTx(secretHex, {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+				outputs,
+			})
+		);
+		expect(signed).to.have.length(2);
+		tx.ins.forEach(
+			(input, i) =>
+				expect(
+					ecc.verifySchnorr(signed[i], bobKey.publicKey.subarray(1), input.witness[0])
+				).to.be.true
+		);
+
+		await expect(
+			bobHTLC.buildRedeemTx(secretHex, { utxos, fee: 1000, tipHeight: 105 })
+		).to.be.rejectedWith(htlcErrors.outputsRequired);
+		await expect(bobHTLC.initiate(10000, 1000)).to.be.rejectedWith(
+			htlcErrors.fundingWalletRequired
+		);
+
+		const wallet = walletSigner(bob);
+		expect(await wallet.getXOnlyPubkey()).to.be.eq(await pubkey(bob));
+		expect(await wallet.getAddress!()).to.be.eq(await bob.getAddress());
+	});
+
+	it("should validate signed spends before broadcasting them", async () => {
+		const bobHTLC = await HTLC.from(
+			bob,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+		const redeem = await bobHTLC.buildRedeemTx(Buffer.from(secret).toString("hex"), {
+			utxos,
+			fee: 1000,
+			tipHeight: 105,
+		});
+		expect(bobHTLC.validateTx(redeem, utxos)).to.deep.eq([]);
+
+		const codes = (tamper: (tx: Transaction) => void, htlc = bobHTLC, txHex = redeem) => {
+			const tx = Transaction.fromHex(txHex);
+			tamper(tx);
+			return htlc.validateTx(tx.toHex(), utxos).map(({ input, code }) => [input, code]);
+		};
+		expect(codes((tx) => (tx.ins[1].witness[0][0] ^= 1))).to.deep.eq([
+			[1, HTLCErrorCode.INVALID_SIG],
+		]);
+		expect(codes((tx) => (tx.ins[0].witness[1] = Buffer.alloc(32)))).to.deep.eq([
+			[0, HTLCErrorCode.SECRET_MISMATCH],
+		]);
+		expect(
+			codes((tx) => (tx.ins[0].witness[3] = tx.ins[0].witness[3].subarray(1)))
+		).to.deep.eq([[0, HTLCErrorCode.INVALID_CONTROL_BLOCK]]);
+		expect(codes((tx) => (tx.ins[0].witness[3][0] ^= 1))).to.deep.eq([
+			[0, HTLCErrorCode.LEAF_NOT_COMMITTED],
+		]);
+		expect(bobHTLC.validateTx(redeem, utxos.slice(1))[0].code).to.be.eq(
+			HTLCErrorCode.SPENT_UTXO_NOT_FOUND
+		);
+
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+		const refund = await aliceHTLC.buildRefundTx({ utxos, fee: 1000, tipHeight: 115 });
+		expect(aliceHTLC.validateTx(refund, utxos)).to.deep.eq([]);
+		// the sequence is signed, the signature breaks along with the expiry
+		expect(codes((tx) => (tx.ins[0].sequence = expiry - 1), aliceHTLC, refund)).to.deep.eq([
+			[0, HTLCErrorCode.INVALID_SIG],
+			[0, HTLCErrorCode.INVALID_REFUND_SEQUENCE],
+			[1, HTLCErrorCode.INVALID_SIG],
+		]);
+
+		const error = new HTLCValidationError(aliceHTLC.validateTx(refund, utxos.slice(0, 1)));
+		expect(error).to.be.instanceOf(HTLCError);
+		expect(error.code).to.be.eq(HTLCErrorCode.SPENT_UTXO_NOT_FOUND);
+		expect(error.message).to.be.eq(
+			htlcErrors.spentUtxoNotFound(utxos[1].txid, utxos[1].vout)
+		);
+	});
+
+	it("should throw typed errors with stable codes", async () => {
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry
+		);
+
+		const error = await aliceHTLC
+			.buildRefundTx({ utxos, fee: 1000, tipHeight: 105 })
+			.catch((e) => e);
+		expect(error).to.be.instanceOf(HTLCExpiryError).and.instanceOf(HTLCError);
+		expect(error.code).to.be.eq(HTLCErrorCode.NOT_EXPIRED);
+		expect(error.blocks).to.be.eq(6);
+		expect(error.message).to.be.eq(htlcErrors.htlcNotExpired(6));
+
+		const sigError = await aliceHTLC
+			.buildInstantRefundTx([{ utxo: utxos[0].txid, vout: 0, sig: "00".repeat(64) }], {
+				utxos,
+				fee: 1000,
+				tipHeight: 105,
+			})
+			.catch((e) => e);
+		expect(sigError).to.be.instanceOf(HTLCSignatureError);
+		expect(sigError.code).to.be.eq(HTLCErrorCode.INVALID_COUNTERPARTY_SIG);
+		expect(sigError.utxo).to.be.eq(utxos[0].txid);
+
+		await expect(
+			HTLC.from(alice, "00", await pubkey(alice), await pubkey(bob), expiry)
+		).to.be.rejectedWith(HTLCParamsError, htlcErrors.secretHashLenMismatch);
+		expect(() => generateInternalkey(Buffer.alloc(32))).to.throw(HTLCKeyError);
+	});
+
+	it("should refund an absolute expiry only after the locktime", async () => {
+		const expiryHeight = 200;
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiryHeight,
+			ExpiryType.ABSOLUTE
+		);
+
+		await expect(
+			aliceHTLC.buildRefundTx({ utxos, fee: 1000, tipHeight: 195 })
+		).to.be.rejectedWith(htlcErrors.htlcNotExpired(5));
+
+		const tx = Transaction.fromHex(
+			await aliceHTLC.buildRefundTx({ utxos, fee: 1000, tipHeight: 200 })
+		);
+		expect(tx.locktime).to.be.eq(expiryHeight);
+		expect(tx.ins.map((input) => input.sequence)).to.deep.eq([0xfffffffe, 0xfffffffe]);
+		expect(script.toASM(tx.ins[0].witness[1])).to.include("OP_CHECKLOCKTIMEVERIFY");
+	});
+
+	it("should refund a timestamp expiry only after the median time past", async () => {
+		const expiryTime = 1700000000;
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiryTime,
+			ExpiryType.ABSOLUTE
+		);
+
+		await expect(
+			aliceHTLC.buildRefundTx({ utxos, fee: 1000, tipHeight: 200 })
+		).to.be.rejectedWith(htlcErrors.medianTimePastRequired);
+		await expect(
+			aliceHTLC.buildRefundTx({
+				utxos,
+				fee: 1000,
+				tipHeight: 200,
+				medianTimePast: expiryTime - 60,
+			})
+		).to.be.rejectedWith(htlcErrors.htlcNotExpiredForSeconds(61));
+
+		const tx = Transaction.fromHex(
+			await aliceHTLC.buildRefundTx({
+				utxos,
+				fee: 1000,
+				tipHeight: 200,
+				medianTimePast: expiryTime + 1,
+			})
+		);
+		expect(tx.locktime).to.be.eq(expiryTime);
+	});
+
+	it("should refund a relative time expiry only after the median time past", async () => {
+		const aliceHTLC = await HTLC.from(
+			alice,
+			secretHash,
+			await pubkey(alice),
+			await pubkey(bob),
+			expiry,
+			ExpiryType.RELATIVE_TIME
+		);
+		const confirmationTimes = {
+			[utxos[0].txid]: 1700000000,
+			[utxos[1].txid]: 1700000600,
+		};
+		const maturesAt = 1700000600 + expiry * 512;
+
+		await expect(
+			aliceHTLC.buildRefundTx({ utxos, fee: 1000, tipHeight: 200 })
+		).to.be.rejectedWith(htlcErrors.medianTimePastRequired);
+		await expect(
+			aliceHTLC.buildRefundTx({
+				utxos,
+				fee: 1000,
+				tipHeight: 200,
+				medianTimePast: maturesAt,
+			})
+		).to.be.rejectedWith(htlcErrors.confirmationTimeRequired(utxos[0].txid));
+		await expect(
+			aliceHTLC.buildRefundTx({
+				utxos,
+				fee: 1000,
+				tipHeight: 200,
+				medianTimePast: maturesAt - 100,
+				confirmationTimes,
+			})
+		).to.be.rejectedWith(htlcErrors.htlcNotExpiredForSeconds(100));
+
+		const tx = Transaction.fromHex(
+			await aliceHTLC.buildRefundTx({
+				utxos,
+				fee: 1000,
+				tipHeight: 200,
+				medianTimePast: maturesAt,
+				confirmationTimes,
+			})
+		);
+		const sequence = (1 << 22) | expiry;
+		expect(tx.ins.map((input) => input.sequence)).to.deep.eq([sequence, sequence]);
+		expect(script.toASM(tx.ins[0].witness[1])).to.include(
+			`${script.number.encode(sequence).toString("hex")} OP_CHECKSEQUENCEVERIFY`
+		);
+
+		await expect(
+			HTLC.from(
+				alice,
+				secretHash,
+				await pubkey(alice),
+				await pubkey(bob),
+				0x10000,
+				ExpiryType.RELATIVE_TIME
+			)
+		).to.be.rejectedWith(htlcErrors.invalidRelativeExpiry);
+	});
+
+	it("should reject time based expiries if the provider has no median time past", async () => {
+		const wallet = BitcoinWallet.createRandom(
+			new BitcoinProvider(BitcoinNetwork.Regtest, "http://localhost:30000")
+		);
+		const create = async (expiry: number, expiryType: ExpiryType) =>
+			HTLC.from(
+				wallet,
+				secretHash,
+				await pubkey(wallet),
+				await pubkey(bob),
+				expiry,
+				expiryType
+			);
+
+		await expect(create(2, ExpiryType.RELATIVE_TIME)).to.be.rejectedWith(
+			HTLCExpiryError,
+			htlcErrors.medianTimePastUnavailable
+		);
+		await expect(create(1700000000, ExpiryType.ABSOLUTE)).to.be.rejectedWith(
+			htlcErrors.medianTimePastUnavailable
+		);
+		expect(await create(200, ExpiryType.ABSOLUTE)).to.be.instanceOf(HTLC);
+
+		// the backend of a wallet takes it from the provider when it has one
+		await expect(walletBackend(wallet).getMedianTimePast!()).to.be.rejectedWith(
+			htlcErrors.medianTimePastUnavailable
+		);
+		expect(await walletBackend(alice).getMedianTimePast!(1)).to.be.eq(
+			await provider.getMedianTimePast(1)
+		);
+	});
+
+	it("should spend cooperatively through the key path with MuSig2", async () => {
+		const aliceKey = ECPair.makeRandom();
+		const bobKey = ECPair.makeRandom();
+		const params = {
+			secretHash,
+			initiatorPubkey: aliceKey.publicKey.toString("hex"),
+			redeemerPubkey: bobKey.publicKey.toString("hex"),
+			expiry,
+			musig: true,
+		};
+		const backend = walletBackend(bob);
+		const aliceHTLC = await HTLC.fromSigner(
+			keySigner(aliceKey.privateKey!),
+			backend,
+			params
+		);
+		const bobHTLC = await HTLC.fromSigner(keySigner(bobKey.privateKey!), backend, params);
+		expect(aliceHTLC.address()).to.be.eq(bobHTLC.address());
+		expect(HTLC.verify(aliceHTLC.address(), params)).to.be.true;
+		expect(HTLC.verify(aliceHTLC.address(), { ...params, musig: false })).to.be.false;
+
+		// cooperative redeem to bob, both build the same PSBT
+		const opts = {
+			utxos,
+			feeRate: 2,
+			tipHeight: 105,
+			outputs: [{ address: await bob.getAddress(), change: true as const }],
+		};
+		const alicePsbt = await aliceHTLC.buildCooperativePsbt(opts);
+		const bobPsbt = await bobHTLC.buildCooperativePsbt(opts);
+		expect(alicePsbt.toBase64()).to.be.eq(bobPsbt.toBase64());
+
+		const aliceNonces = await aliceHTLC.musigNonces(alicePsbt);
+		const bobNonces = await bobHTLC.musigNonces(bobPsbt);
+		const publicNonces = {
+			initiator: aliceNonces.publicNonces,
+			redeemer: bobNonces.publicNonces,
+		};
+		const partialSigs = {
+			initiator: await aliceHTLC.musigPartialSign(
+				alicePsbt,
+				aliceNonces.secretNonces,
+				publicNonces
+			),
+			redeemer: await bobHTLC.musigPartialSign(
+				bobPsbt,
+				bobNonces.secretNonces,
+				publicNonces
+			),
+		};
+
+		expect(() =>
+			bobHTLC.finalizeCooperativePsbt(bobPsbt.clone(), publicNonces, {
+				...partialSigs,
+				initiator: partialSigs.redeemer,
+			})
+		).to.throw("invalid partial signature");
+
+		const tx = Transaction.fromHex(
+			bobHTLC.finalizeCooperativePsbt(bobPsbt, publicNonces, partialSigs)
+		);
+		const outputScript = toOutputScript(bobHTLC.address(), networks.regtest);
+		for (let i = 0; i < tx.ins.length; i++) {
+			expect(tx.ins[i].witness).to.have.length(1);
+			const hash = tx.hashForWitnessV1(
+				i,
+				utxos.map(() => outputScript),
+				utxos.map((utxo) => utxo.value),
+				Transaction.SIGHASH_DEFAULT
+			);
+			expect(ecc.verifySchnorr(hash, outputScript.subarray(2), tx.ins[i].witness[0])).to
+				.be.true;
+		}
+		expect(tx.outs[0].value).to.be.eq(12000 - Math.ceil(tx.virtualSize() * 2));
+
+		const strangerHTLC = await HTLC.fromSigner(
+			keySigner(ECPair.makeRandom().privateKey!),
+			backend,
+			params
+		);
+		await expect(strangerHTLC.musigNonces(bobPsbt)).to.be.rejectedWith(
+			musigErrors.notAParticipant
+		);
+		const walletHTLC = await HTLC.fromParams(bob, params);
+		await expect(walletHTLC.musigNonces(bobPsbt)).to.be.rejectedWith(
+			musigErrors.musigSignerRequired
+		);
+		const bare = new Psbt({ network: networks.regtest });
+		bare.addInput({ hash: tx.getHash(), index: 0 });
+		bare.addOutput({ script: outputScript, value: 1000 });
+		await expect(bobHTLC.musigNonces(bare)).to.be.rejectedWith(
+			HTLCValidationError,
+			htlcErrors.psbtWitnessUtxoNotFound(0)
+		);
+	});
+});
+
+describe("Bitcoin HTLC from Lightning invoices", () => {
+	const paymentHash = sha256(Buffer.from(randomBytes(32)));
+	const payee = ECPair.makeRandom();
+	const opts = {
+		initiatorPubkey: ECPair.makeRandom().publicKey.toString("hex"),
+		redeemerPubkey: ECPair.makeRandom().publicKey.toString("hex"),
+	};
+	const tipHeight = 800;
+	const params = (
+		prefix: string,
+		fields: [number, Buffer | number][] = [],
+		extra: Partial<InvoiceHTLCOptions> = {}
+	) =>
+		invoiceHTLCParams(
+			parseInvoice(
+				encodeInvoice(prefix, [[1, paymentHash], ...fields], payee.privateKey!)
+			),
+			networks.regtest,
+			tipHeight,
+			{ ...opts, ...extra }
+		);
+
+	it("should derive the HTLC parameters from the invoice", () => {
+		expect(params("lnbcrt2500u", [[24, 144]], { amount: 200000 })).to.deep.eq({
+			params: {
+				...opts,
+				secretHash: paymentHash.toString("hex"),
+				expiry: 932,
+				expiryType: ExpiryType.ABSOLUTE,
+			},
+			checks: { expectedAmount: 200000 },
+		});
+		// the default min final cltv expiry is 18 blocks
+		expect(params("lnbcrt10n").params.expiry).to.be.eq(806);
+		expect(params("lnbcrt10n").checks.expectedAmount).to.be.eq(1);
+		expect(params("lnbcrt10n", [[24, 40]], { safetyMargin: 30 }).params.expiry).to.be.eq(
+			810
+		);
+	});
+
+	it("should reject invoices which do not fit the HTLC", () => {
+		const rejects = (code: HTLCErrorCode, fn: () => unknown) =>
+			expect(fn).to.throw(HTLCParamsError).with.property("code", code);
+
+		rejects(HTLCErrorCode.INVOICE_NETWORK_MISMATCH, () => params("lnbc2500u"));
+		rejects(HTLCErrorCode.INVOICE_AMOUNT_REQUIRED, () => params("lnbcrt"));
+		rejects(HTLCErrorCode.INVOICE_AMOUNT_NOT_SATS, () => params("lnbcrt10p"));
+		rejects(HTLCErrorCode.AMOUNT_EXCEEDS_INVOICE, () =>
+			params("lnbcrt2500u", [], { amount: 250001 })
+		);
+		rejects(HTLCErrorCode.INVOICE_EXPIRED, () =>
+			params("lnbcrt2500u", [[6, 60]], { now: Math.floor(Date.now() / 1000) + 61 })
+		);
+		rejects(HTLCErrorCode.INVOICE_CLTV_TOO_SHORT, () => params("lnbcrt2500u", [[24, 12]]));
+		// the redeemer gets at least INVOICE_MIN_REDEEM_BLOCKS blocks before the expiry
+		rejects(HTLCErrorCode.INVOICE_CLTV_TOO_SHORT, () =>
+			params("lnbcrt2500u", [
+				[24, INVOICE_CLTV_SAFETY_MARGIN + INVOICE_MIN_REDEEM_BLOCKS - 1],
+			])
+		);
+		expect(
+			params("lnbcrt2500u", [
+				[24, INVOICE_CLTV_SAFETY_MARGIN + INVOICE_MIN_REDEEM_BLOCKS],
+			]).params.expiry
+		).to.be.eq(tipHeight + INVOICE_MIN_REDEEM_BLOCKS);
+		expect(() => params("lnbcrt2500u", [[24, 40]], { minRedeemBlocks: 29 })).to.throw(
+			invoiceErrors.invoiceCltvTooShort(40, INVOICE_CLTV_SAFETY_MARGIN, 29)
+		);
+		expect(
+			params("lnbcrt2500u", [[24, 40]], { minRedeemBlocks: 28 }).params.expiry
+		).to.be.eq(tipHeight + 28);
+		// signed by another key than the payee pubkey of the invoice
+		rejects(HTLCErrorCode.INVALID_INVOICE_SIG, () =>
+			params("lnbcrt2500u", [[19, ECPair.makeRandom().publicKey]])
+		);
+
+		const invoice = encodeInvoice("lnbcrt2500u", [[1, paymentHash]], payee.privateKey!);
+		const tampered =
+			invoice.slice(0, 20) + (invoice[20] === "q" ? "p" : "q") + invoice.slice(21);
+		rejects(HTLCErrorCode.INVALID_INVOICE, () => parseInvoice(tampered));
+		rejects(HTLCErrorCode.INVALID_INVOICE, () =>
+			parseInvoice(encodeInvoice("lnbcrt2500u", [], payee.privateKey!))
+		);
+	});
+});
+
+describe("Bitcoin P2WSH HTLC", () => {
+	const secret = Buffer.from(randomBytes(32)).toString("hex");
+	const secretHash = sha256(Buffer.from(secret, "hex")).toString("hex");
+	const amount = 5000;
+	const fee = 1000;
+	const provider = new MockBitcoinChain();
+
+	const setup = async (expiry: number) => {
+		const alice = BitcoinWallet.createRandom(provider);
+		const bob = BitcoinWallet.createRandom(provider);
+		await provider.fund(await alice.getAddress());
+
+		const [alicePubkey, bobPubkey] = [await alice.getPublicKey(), await bob.getPublicKey()];
+		const aliceHTLC = await P2WSHHTLC.from(
+			alice,
+			secretHash,
+			alicePubkey,
+			bobPubkey,
+			expiry
+		);
+		const bobHTLC = await P2WSHHTLC.from(bob, secretHash, alicePubkey, bobPubkey, expiry);
+		return { alice, bob, aliceHTLC, bobHTLC };
+	};
+
+	it("should initiate and redeem with secret", async () => {
+		const { bob, aliceHTLC, bobHTLC } = await setup(7200);
+		expect(aliceHTLC.address()).to.be.eq(bobHTLC.address());
+		expect(aliceHTLC.address().startsWith("bcrt1q")).to.be.true;
+		await aliceHTLC.initiate(amount, fee);
+
+		await expect(
+			bobHTLC.redeem(Buffer.from(randomBytes(32)).toString("hex"))
+		).to.be.rejectedWith(htlcErrors.secretMismatch);
+
+		const hash = await bobHTLC.redeem(secret, { feeRate: 2 });
+		const tx = await provider.getTransaction(hash);
+		expect(tx.vout[0].scriptpubkey_address).to.be.eq(await bob.getAddress());
+		expect(tx.vin[0].witness?.[1]).to.be.eq(secret);
+	});
+
+	it("should refund only after expiry", async () => {
+		const { alice, aliceHTLC } = await setup(1);
+		await aliceHTLC.initiate(amount, fee);
+
+		await expect(aliceHTLC.refund()).to.be.rejectedWith(htlcErrors.htlcNotExpired(2));
+		await provider.mine(2);
+
+		const hash = await aliceHTLC.refund();
+		const tx = await provider.getTransaction(hash);
+		expect(tx.vout[0].scriptpubkey_address).to.be.eq(await alice.getAddress());
+		expect(tx.vin[0].sequence).to.be.eq(1);
+	});
+
+	it("should instantly refund with the redeemer's signatures", async () => {
+		const { alice, aliceHTLC, bobHTLC } = await setup(7200);
+		const initTxId = await aliceHTLC.initiate(amount, fee);
+
+		const bobSigs = await bobHTLC.signInstantRefund(await alice.getAddress(), fee);
+		expect(bobSigs[0].utxo).to.be.eq(initTxId);
+
+		const corruptedSigs = bobSigs.map(({ sig, ...utxo }) => ({
+			...utxo,
+			sig: Buffer.from(sig, "hex").reverse().toString("hex"),
+		}));
+		await expect(aliceHTLC.instantRefund(corruptedSigs, fee)).to.be.rejectedWith(
+			htlcErrors.invalidCounterpartySigForUTXO(initTxId)
+		);
+
+		const hash = await aliceHTLC.instantRefund(bobSigs, fee);
+		const tx = await provider.getTransaction(hash);
+		expect(tx.vout[0].scriptpubkey_address).to.be.eq(await alice.getAddress());
+		expect(tx.vout[0].value).to.be.eq(amount - fee);
+	});
+
+	it("should require compressed pubkeys", async () => {
+		const alice = BitcoinWallet.createRandom(provider);
+		await expect(
+			P2WSHHTLC.from(
+				alice,
+				secretHash,
+				await pubkey(alice),
+				await alice.getPublicKey(),
+				10
+			)
+		).to.be.rejectedWith(
+			HTLCParamsError,
+			`initiator ${htlcErrors.compressedPubkeyRequired}`
+		);
+	});
+});
+
+const pubkey = async (wallet: IBitcoinWallet) => {
+	return (await wallet.getPublicKey()).slice(2);
+};
+
+/**
+ * Encodes a BOLT11 invoice with the given tagged fields and signs it with the private key
+ */
+const encodeInvoice = (
+	prefix: string,
+	fields: [number, Buffer | number][],
+	privateKey: Buffer,
+	timestamp = Math.floor(Date.now() / 1000)
+) => {
+	const intWords = (n: number, length = 0) => {
+		const words: number[] = [];
+		for (; n > 0 || words.length < Math.max(length, 1); n = Math.floor(n / 32)) {
+			words.unshift(n % 32);
+		}
+		return words;
+	};
+	const words = intWords(timestamp, 7);
+	for (const [tag, data] of fields) {
+		const field = typeof data === "number" ? intWords(data) : bech32.toWords(data);
+		words.push(tag, field.length >> 5, field.length & 31, ...field);
 	}
-	return sigs;
+
+	// words padded with zeros to bytes
+	const bits = words.map((word) => word.toString(2).padStart(5, "0")).join("");
+	const bytes = bits.padEnd(Math.ceil(bits.length / 8) * 8, "0").match(/.{8}/g)!;
+	const hash = sha256(
+		Buffer.concat([
+			Buffer.from(prefix),
+			Buffer.from(bytes.map((byte) => parseInt(byte, 2))),
+		])
+	);
+	const { signature, recoveryId } = ecc.signRecoverable(hash, privateKey);
+	const sig = Buffer.concat([signature, Buffer.from([recoveryId])]);
+	return bech32.encode(prefix, [...words, ...bech32.toWords(sig)], Number.MAX_SAFE_INTEGER);
 };
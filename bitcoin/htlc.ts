@@ -3,13 +3,69 @@ import * as bitcoin from "bitcoinjs-lib";
 import { toHashTree } from "bitcoinjs-lib/src/payments/bip341";
 import { sha256, taggedHash } from "bitcoinjs-lib/src/crypto";
 import * as ecc from "tiny-secp256k1";
-import { generateInternalkey, tweakPubkey } from "./internalKey";
+import {
+	DEFAULT_BLINDING,
+	deriveBlinding,
+	generateInternalkey,
+	tweakPubkey,
+} from "./internalKey";
+import { splitTopLevel, stripChecksum, withChecksum } from "./descriptor";
+import { InvoiceHTLCOptions, invoiceHTLCParams, parseInvoice } from "./bolt11";
 import { Taptree } from "bitcoinjs-lib/src/types";
-import { LEAF_VERSION } from "./constants";
-import { assert, xOnlyPubkey } from "./utils";
+import {
+	ANNEX_TAG,
+	DEFAULT_MAX_FEE_RATE,
+	INCREMENTAL_RELAY_FEE_RATE,
+	LEAF_VERSION,
+	LOCKTIME_THRESHOLD,
+	MAX_LOCKTIME,
+	MAX_OP_RETURN_DATA,
+	SEQUENCE_ENABLE_LOCKTIME,
+	SEQUENCE_FINAL,
+	SEQUENCE_LOCKTIME_DISABLE_FLAG,
+	SEQUENCE_LOCKTIME_MASK,
+	SEQUENCE_LOCKTIME_TYPE_FLAG,
+	SEQUENCE_RBF,
+	SEQUENCE_TIME_UNIT_SECONDS,
+} from "./constants";
+import {
+	addOutputs,
+	assert,
+	dustThreshold,
+	isWitnessProgram,
+	notFundedError,
+	toBuffer,
+	toSpendOutputs,
+	txVsize,
+	verifyLeafInclusion,
+	xOnlyPubkey,
+} from "./utils";
 import { serializeScript, sortLeaves } from "./utils";
-import { htlcErrors } from "./errors";
+import {
+	HTLCErrorCode,
+	HTLCExpiryError,
+	HTLCFundingError,
+	HTLCKeyError,
+	HTLCParamsError,
+	HTLCSignatureError,
+	HTLCSpendError,
+	HTLCValidationError,
+	SpendDiagnostic,
+	htlcErrors,
+	musigErrors,
+} from "./errors";
+import { aggregatePubkeys, participantIndex, signingSession } from "./musig";
 import { BitcoinUTXO } from "@catalogfi/wallets/dist/src/lib/bitcoin/provider.interface";
+import {
+	BitcoinChainBackend,
+	hasMedianTimePast,
+	MusigSession,
+	TaprootSigner,
+	walletBackend,
+	walletSigner,
+} from "./signer";
+import { witnessStackToScriptWitness } from "bitcoinjs-lib/src/psbt/psbtutils";
+import { PresignedRefund, PresignRefundOptions } from "./refund";
 
 export enum Leaf {
 	REFUND,
@@ -21,19 +77,304 @@ bitcoin.initEccLib(ecc);
 
 export interface IHTLC {
 	initiate(amount: number, fee?: number): Promise<string>;
-	instantRefund(
-		counterPartySigs: { utxo: string; sig: string }[],
-		fee?: number
-	): Promise<string>;
-	redeem(secret: string, fee?: number): Promise<string>;
-	refund(fee?: number): Promise<string>;
+	instantRefund(counterPartySigs: CounterpartySig[], fee?: Fee): Promise<string>;
+	redeem(secret: string, fee?: Fee): Promise<string>;
+	refund(fee?: Fee): Promise<string>;
 }
 
+/**
+ * Signature of the counterparty for the instant refund of a utxo of the HTLC,
+ * `utxo` being the txid and `vout` the output index of the utxo
+ */
+export type CounterpartySig = { utxo: string; vout: number; sig: string };
+
+/**
+ * Fee of a HTLC spend, either an absolute fee in sats or a fee rate in sats/vbyte.
+ * Fee rates are applied on the exact virtual size of the spend (see `HTLC.estimateSpendVsize`).
+ */
+export type Fee = number | { feeRate: number };
+
+/**
+ * Sanity checks applied before building a HTLC spend
+ */
+export type SpendChecks = {
+	/**
+	 * fee rate cap in sats/vbyte, spends paying more are rejected. Defaults to 1000
+	 */
+	maxFeeRate?: number;
+	/**
+	 * amount in sats the HTLC is expected to be funded with, spends of less are rejected
+	 */
+	expectedAmount?: number;
+	/**
+	 * confirmations every funding utxo needs before it is spent
+	 */
+	minConfirmations?: number;
+};
+
+/**
+ * Everything needed to build a HTLC spend without querying a provider.
+ * Checks given here take precedence over the ones the HTLC was created with.
+ */
+export type OfflineSpendOptions = SpendChecks & {
+	/**
+	 * utxos of the htlc address to spend
+	 */
+	utxos: BitcoinUTXO[];
+	/**
+	 * current block height, used to ensure the utxos are expired while refunding
+	 */
+	tipHeight: number;
+	/**
+	 * median time past of the current block, required only to refund
+	 * HTLCs with a timestamp or a relative time expiry
+	 */
+	medianTimePast?: number;
+	/**
+	 * median time past of the block preceding the one confirming each funding transaction, by txid.
+	 * The timestamp of the confirming block can be used as a conservative stand-in.
+	 * Required only to refund HTLCs with a relative time expiry.
+	 */
+	confirmationTimes?: Record<string, number>;
+	/**
+	 * absolute fee in sats
+	 */
+	fee?: number;
+	/**
+	 * fee rate in sats/vbyte, used only when `fee` is not given
+	 */
+	feeRate?: number;
+	/**
+	 * outputs of the spend, defaults to the whole balance (minus fee) to the signer's address
+	 */
+	outputs?: SpendOutput[];
+	/**
+	 * signal the replaceability of the spend (bip125) so that its fee can be bumped (see `bumpFee`)
+	 */
+	rbf?: boolean;
+};
+
+/**
+ * Everything needed to build a child paying for a stuck HTLC spend without querying a provider
+ */
+export type CpfpOptions = {
+	/**
+	 * fee paid by the stuck parent in sats
+	 */
+	parentFee: number;
+	/**
+	 * output of the parent spent by the child
+	 */
+	vout: number;
+	/**
+	 * fee rate the parent and the child should reach together in sats/vbyte
+	 */
+	feeRate: number;
+	/**
+	 * fee rate cap of the parent and the child together, defaults to the one the HTLC was created with
+	 */
+	maxFeeRate?: number;
+	/**
+	 * outputs of the child, defaults to the whole output (minus fee) to the address of the output
+	 */
+	outputs?: SpendOutput[];
+};
+
+/**
+ * Utxo of the funding wallet spent by a funding transaction
+ */
+export type FundingInput = {
+	txid: string;
+	vout: number;
+	value: number;
+	/**
+	 * address holding the utxo
+	 */
+	address: string;
+	/**
+	 * raw transaction creating the utxo, required if the address is not a segwit address
+	 */
+	txHex?: string;
+};
+
+/**
+ * Inputs, change and fee of a funding transaction built for an external wallet
+ */
+export type FundingOptions = {
+	/**
+	 * utxos of the funding wallet to spend, all of them are spent
+	 */
+	inputs: FundingInput[];
+	/**
+	 * address receiving what is left after the HTLC output and the fee,
+	 * dropped (and left to the fee) if it would receive dust
+	 */
+	changeAddress: string;
+	/**
+	 * absolute fee in sats
+	 */
+	fee?: number;
+	/**
+	 * fee rate in sats/vbyte, used only when `fee` is not given.
+	 * Requires every input to be a p2wpkh or p2tr utxo so that the funding can be priced.
+	 */
+	feeRate?: number;
+	/**
+	 * fee rate cap in sats/vbyte, defaults to the one the HTLC was created with
+	 */
+	maxFeeRate?: number;
+	/**
+	 * hex encoded id of the swap or order, committed to by an OP_RETURN output
+	 */
+	swapId?: string;
+	/**
+	 * signal the replaceability of the funding (bip125)
+	 */
+	rbf?: boolean;
+};
+
+/**
+ * Destination of a HTLC spend. Exactly one output of a spend should be the change output,
+ * which receives whatever is left of the funded amount after the other outputs and the fee.
+ */
+export type SpendOutput =
+	| { address: string; amount: number }
+	| { address: string; change: true };
+
+/**
+ * Utxo of the HTLC which can not be refunded yet, with the blocks (or the seconds for
+ * time based expiries) left until it can
+ */
+export type LockedUTXO = { txid: string; vout: number } & (
+	| { blocks: number }
+	| { seconds: number }
+);
+
+/**
+ * A HTLC spent by a batch transaction
+ */
+export type BatchSpend = {
+	htlc: HTLC;
+	/**
+	 * secret redeeming the HTLC, the HTLC is refunded if absent
+	 */
+	secret?: string;
+};
+
+/**
+ * Parameters the HTLC address commits to
+ */
+export type HTLCParams = {
+	/**
+	 * 32 bytes secret hash
+	 */
+	secretHash: string;
+	/**
+	 * initiator's x-only public key or 33 bytes public key
+	 */
+	initiatorPubkey: string;
+	/**
+	 * redeemer's x-only public key or 33 bytes public key
+	 */
+	redeemerPubkey: string;
+	/**
+	 * number of blocks after which the funds can be refunded,
+	 * interpreted according to `expiryType`
+	 */
+	expiry: number;
+	/**
+	 * defaults to `ExpiryType.RELATIVE`
+	 */
+	expiryType?: ExpiryType;
+	/**
+	 * use the MuSig2 aggregate of the initiator's and the redeemer's pubkeys as the internal key
+	 * instead of the NUMS key, enabling cooperative key path spends. Defaults to false
+	 */
+	musig?: boolean;
+	/**
+	 * 32 bytes scalar r blinding the NUMS internal key H + r·G, so that HTLCs do not share
+	 * the same internal key. Defaults to the key shared by all HTLCs (blinded with sha256("HTLC"))
+	 */
+	blinding?: string;
+	/**
+	 * blind the NUMS internal key with `deriveBlinding` over the parameters, so that HTLCs do not
+	 * share the same internal key without exchanging a blinding. Opt-in as it changes the address,
+	 * HTLCs created without it keep the shared key. Defaults to false
+	 */
+	perHtlcBlinding?: boolean;
+	/**
+	 * write the redeem and refund leaves as miniscript (`and_v(v:sha256(H),pk(K))` and
+	 * `and_v(v:older(n),pk(K))` or `and_v(v:after(n),pk(K))`), which descriptor based wallets
+	 * can import (see `HTLC.descriptor`). Requires 32 bytes secrets. Defaults to false
+	 */
+	miniscript?: boolean;
+};
+
+/**
+ * MuSig2 data of a cooperative spend, one entry per input as hex
+ */
+export type MusigRound = { initiator: string[]; redeemer: string[] };
+
+/**
+ * How the expiry of the refund leaf is enforced
+ */
+export enum ExpiryType {
+	/**
+	 * expiry is the number of blocks after the funding utxo confirms (OP_CHECKSEQUENCEVERIFY)
+	 */
+	RELATIVE = "RELATIVE",
+	/**
+	 * expiry is the number of 512 seconds intervals after the funding utxo confirms, compared
+	 * against the median time past (OP_CHECKSEQUENCEVERIFY with the bip68 type flag)
+	 */
+	RELATIVE_TIME = "RELATIVE_TIME",
+	/**
+	 * expiry is an absolute block height, or a unix timestamp compared against the
+	 * median time past if it is at least 500000000 (OP_CHECKLOCKTIMEVERIFY)
+	 */
+	ABSOLUTE = "ABSOLUTE",
+}
+
+export enum HTLCState {
+	UNFUNDED = "UNFUNDED",
+	FUNDED = "FUNDED",
+	REDEEMED = "REDEEMED",
+	REFUNDED = "REFUNDED",
+	INSTANT_REFUNDED = "INSTANT_REFUNDED",
+	KEY_PATH_SPENT = "KEY_PATH_SPENT",
+}
+
+/**
+ * On-chain state of the HTLC address
+ */
+export type HTLCStatus =
+	| { state: HTLCState.UNFUNDED }
+	| {
+			state: HTLCState.FUNDED;
+			/**
+			 * sum of the unspent utxos of the htlc address in sats
+			 */
+			amount: number;
+			/**
+			 * confirmations of the least confirmed utxo, 0 if any utxo is unconfirmed
+			 */
+			confirmations: number;
+	  }
+	| { state: HTLCState.REDEEMED; txid: string; secret: string }
+	| { state: HTLCState.REFUNDED; txid: string }
+	| { state: HTLCState.INSTANT_REFUNDED; txid: string }
+	| { state: HTLCState.KEY_PATH_SPENT; txid: string };
+
 export class HTLC implements IHTLC {
 	/**
-	 * Signer of the HTLC can be either the initiator or the redeemer
+	 * Signer of the HTLC can be either the initiator or the redeemer.
+	 * Absent for instances only used to derive scripts (see `HTLC.verify`)
+	 */
+	private signer?: TaprootSigner;
+	/**
+	 * Chain access of the online methods, absent for instances only used offline
 	 */
-	private signer: IBitcoinWallet;
+	private backend?: BitcoinChainBackend;
 	private secretHash: string;
 	/**
 	 * redeemer's x-only public key without 02 or 03 prefix
@@ -44,30 +385,53 @@ export class HTLC implements IHTLC {
 	 */
 	private initiatorPubkey: string;
 	private expiry: number;
+	private expiryType: ExpiryType;
 	/**
-	 * NUMS internal key which blocks key path spending
+	 * NUMS internal key which blocks key path spending,
+	 * or the MuSig2 aggregate of the initiator's and the redeemer's pubkeys
 	 */
 	private internalPubkey: Buffer;
+	private musig: boolean;
+	/**
+	 * blinding scalar of the NUMS internal key, absent for MuSig2 internal keys
+	 */
+	private blindingFactor?: Buffer;
+	private miniscript: boolean;
+	private checks: SpendChecks = {};
 	private network: bitcoin.networks.Network;
 
 	/**
 	 * Note: redeemerAddress and initiatorAddress should be x-only public key without 02 or 03 prefix
 	 */
 	private constructor(
-		signer: IBitcoinWallet,
+		signer: TaprootSigner | undefined,
+		backend: BitcoinChainBackend | undefined,
 		secretHash: string,
 		redeemerPubkey: string,
 		initiatorPubkey: string,
 		expiry: number,
-		network: bitcoin.networks.Network
+		expiryType: ExpiryType,
+		network: bitcoin.networks.Network,
+		musig: boolean,
+		blinding: Buffer | undefined,
+		miniscript = false
 	) {
 		this.secretHash = secretHash;
 		this.redeemerPubkey = redeemerPubkey;
 		this.initiatorPubkey = initiatorPubkey;
 		this.expiry = expiry;
+		this.expiryType = expiryType;
 		this.signer = signer;
+		this.backend = backend;
 		this.network = network;
-		this.internalPubkey = generateInternalkey();
+		this.musig = musig;
+		this.miniscript = miniscript;
+		this.blindingFactor = blinding;
+		this.internalPubkey = blinding
+			? generateInternalkey(blinding)
+			: aggregatePubkeys(
+					[initiatorPubkey, redeemerPubkey].map((k) => Buffer.from(k, "hex"))
+			  );
 	}
 
 	/**
@@ -77,237 +441,2125 @@ export class HTLC implements IHTLC {
 	 * @param initiatorPubkey initiator's x-only public key without 02 or 03 prefix
 	 * @param redeemerPubkey redeemer's x-only public key without 02 or 03 prefix
 	 * @param expiry block height after which the funds can be refunded
+	 * @param expiryType whether the expiry is relative to the funding (default) or absolute
+	 * @param blinding 32 bytes scalar blinding the NUMS internal key (see `HTLCParams.blinding`)
 	 * @returns HTLC instance
 	 *
 	 *
 	 * Note: When the signer is the initiator, only refund and instant refund can be done
-	 * When the signer is the redeemer, only redeem can be done
+	 * When the signer is the redeemer, only redeem can be done.
+	 * Time based expiries are rejected unless the provider of the wallet serves the median time past.
 	 */
 	static async from(
 		signer: IBitcoinWallet,
 		secretHash: string,
 		initiatorPubkey: string,
 		redeemerPubkey: string,
-		expiry: number
+		expiry: number,
+		expiryType = ExpiryType.RELATIVE,
+		blinding?: string
 	): Promise<HTLC> {
+		return HTLC.fromParams(signer, {
+			secretHash,
+			initiatorPubkey,
+			redeemerPubkey,
+			expiry,
+			expiryType,
+			blinding,
+		});
+	}
+
+	/**
+	 * Creates a HTLC instance from its parameters, allowing opt-in features
+	 * such as MuSig2 key path spending (see `HTLCParams.musig`)
+	 * @param signer Bitcoin wallet of the initiator or redeemer
+	 * @param checks sanity checks applied before building every spend
+	 * @throws HTLCExpiryError for time based expiries if the provider of the wallet has no median time past
+	 */
+	static async fromParams(
+		signer: IBitcoinWallet,
+		params: HTLCParams,
+		checks: SpendChecks = {}
+	): Promise<HTLC> {
+		const htlc = await HTLC.fromSigner(
+			walletSigner(signer),
+			walletBackend(signer),
+			params,
+			checks
+		);
+		// refunds could never check the expiry online
+		assert(
+			!htlc.isTimeLocked() || hasMedianTimePast(await signer.getProvider()),
+			new HTLCExpiryError(
+				HTLCErrorCode.MEDIAN_TIME_PAST_UNAVAILABLE,
+				htlcErrors.medianTimePastUnavailable
+			)
+		);
+		return htlc;
+	}
+
+	/**
+	 * Creates a HTLC instance signing with any taproot signer (e.g. HSM, KMS or remote signer)
+	 * and querying the chain through any backend
+	 * @param signer signer of the initiator or redeemer
+	 * @param backend chain access of the online methods, the network is taken from it
+	 * @param checks sanity checks applied before building every spend
+	 */
+	static async fromSigner(
+		signer: TaprootSigner,
+		backend: BitcoinChainBackend,
+		params: HTLCParams,
+		checks: SpendChecks = {}
+	): Promise<HTLC> {
+		const htlc = HTLC.create(signer, backend, params, await backend.getNetwork());
+		htlc.checks = checks;
+		return htlc;
+	}
+
+	/**
+	 * Creates a HTLC locked to the payment hash of a BOLT11 invoice, for swaps between
+	 * Lightning and Bitcoin. The invoice is parsed offline, see `invoiceHTLCParams` for
+	 * the checks and the expiry derived from its min final cltv expiry and the latest block height.
+	 * @param signer Bitcoin wallet of the initiator or redeemer
+	 */
+	static async fromInvoice(
+		signer: IBitcoinWallet,
+		invoice: string,
+		opts: InvoiceHTLCOptions
+	): Promise<HTLC> {
+		const { params, checks } = invoiceHTLCParams(
+			parseInvoice(invoice),
+			await signer.getNetwork(),
+			await (await signer.getProvider()).getLatestTip(),
+			opts
+		);
+		return HTLC.fromParams(signer, params, checks);
+	}
+
+	/**
+	 * Creates a watch-only HTLC instance from its parameters, for services monitoring swaps
+	 * without holding a key. Scripts, address, descriptor and secret extraction work offline,
+	 * status queries need the backend. Signing operations throw.
+	 * @param network network of the HTLC address
+	 * @param backend chain access of the status queries
+	 */
+	static watchOnly(
+		params: HTLCParams,
+		network: bitcoin.networks.Network,
+		backend?: BitcoinChainBackend
+	): HTLC {
+		return HTLC.create(undefined, backend, params, network);
+	}
+
+	/**
+	 * Validates the parameters and creates the HTLC instance
+	 */
+	private static create(
+		signer: TaprootSigner | undefined,
+		backend: BitcoinChainBackend | undefined,
+		{
+			secretHash,
+			initiatorPubkey,
+			redeemerPubkey,
+			expiry,
+			expiryType = ExpiryType.RELATIVE,
+			musig = false,
+			blinding,
+			perHtlcBlinding = false,
+			miniscript = false,
+		}: HTLCParams,
+		network: bitcoin.networks.Network
+	): HTLC {
 		// trim 0x prefix if present
 		secretHash = secretHash.startsWith("0x") ? secretHash.slice(2) : secretHash;
 
-		assert(secretHash.length === 64, htlcErrors.secretHashLenMismatch);
+		assert(
+			secretHash.length === 64,
+			new HTLCParamsError(
+				HTLCErrorCode.SECRET_HASH_LEN_MISMATCH,
+				htlcErrors.secretHashLenMismatch
+			)
+		);
 		// initiator and redeemer pubkey should be either x-only 32 bytes or normal 33 bytes pubkey which
 		// will be trimmed to x-only pubkey later
 		assert(
 			initiatorPubkey.length === 64 || initiatorPubkey.length === 66,
-			`initiator ${htlcErrors.pubkeyLenMismatch}`
+			new HTLCParamsError(
+				HTLCErrorCode.PUBKEY_LEN_MISMATCH,
+				`initiator ${htlcErrors.pubkeyLenMismatch}`
+			)
 		);
 		assert(
 			redeemerPubkey.length === 64 || redeemerPubkey.length === 66,
-			`redeemer ${htlcErrors.pubkeyLenMismatch}`
+			new HTLCParamsError(
+				HTLCErrorCode.PUBKEY_LEN_MISMATCH,
+				`redeemer ${htlcErrors.pubkeyLenMismatch}`
+			)
+		);
+		assert(
+			expiry > 0,
+			new HTLCParamsError(
+				HTLCErrorCode.ZERO_OR_NEGATIVE_EXPIRY,
+				htlcErrors.zeroOrNegativeExpiry
+			)
+		);
+		if (expiryType === ExpiryType.ABSOLUTE) {
+			assert(
+				Number.isInteger(expiry) && expiry <= MAX_LOCKTIME,
+				new HTLCParamsError(
+					HTLCErrorCode.INVALID_ABSOLUTE_EXPIRY,
+					htlcErrors.invalidAbsoluteExpiry
+				)
+			);
+		} else {
+			assert(
+				Number.isInteger(expiry) && expiry <= SEQUENCE_LOCKTIME_MASK,
+				new HTLCParamsError(
+					HTLCErrorCode.INVALID_RELATIVE_EXPIRY,
+					htlcErrors.invalidRelativeExpiry
+				)
+			);
+		}
+
+		if (blinding !== undefined) {
+			assert(
+				!musig,
+				new HTLCParamsError(
+					HTLCErrorCode.BLINDING_WITH_MUSIG,
+					htlcErrors.blindingWithMusig
+				)
+			);
+			blinding = blinding.startsWith("0x") ? blinding.slice(2) : blinding;
+			assert(
+				blinding.length === 64,
+				new HTLCParamsError(
+					HTLCErrorCode.BLINDING_LEN_MISMATCH,
+					htlcErrors.blindingLenMismatch
+				)
+			);
+		}
+		assert(
+			!perHtlcBlinding || (!musig && blinding === undefined),
+			new HTLCParamsError(
+				HTLCErrorCode.PER_HTLC_BLINDING_CONFLICT,
+				htlcErrors.perHtlcBlindingConflict
+			)
+		);
+		const xOnly = {
+			initiator: xOnlyPubkey(initiatorPubkey).toString("hex"),
+			redeemer: xOnlyPubkey(redeemerPubkey).toString("hex"),
+		};
+		let blindingFactor: Buffer | undefined;
+		if (blinding !== undefined) blindingFactor = Buffer.from(blinding, "hex");
+		else if (perHtlcBlinding) {
+			blindingFactor = deriveBlinding(
+				secretHash,
+				xOnly.initiator,
+				xOnly.redeemer,
+				expiry,
+				expiryType
+			);
+		} else if (!musig) blindingFactor = DEFAULT_BLINDING;
+
+		return new HTLC(
+			signer,
+			backend,
+			secretHash,
+			xOnly.redeemer,
+			xOnly.initiator,
+			expiry,
+			expiryType,
+			network,
+			musig,
+			blindingFactor,
+			miniscript
+		);
+	}
+
+	/**
+	 * Verifies that a taproot address commits to the given HTLC parameters.
+	 * Needs neither a signer nor network access.
+	 *
+	 * Recomputes the output key by tweaking the internal key with the merkle root of the leaves
+	 * and compares it with the witness program of the address. When a proof is given, also checks
+	 * that the control block proves the inclusion of the leaf script in the output key.
+	 *
+	 * @param address taproot address claimed to be the HTLC address
+	 * @param params claimed HTLC parameters
+	 * @param proof control block and leaf script of a leaf of the HTLC
+	 * @returns true if the address (and the proof) match the parameters
+	 */
+	static verify(
+		address: string,
+		params: HTLCParams,
+		proof?: { controlBlock: Buffer | string; leafScript: Buffer | string }
+	): boolean {
+		let decoded: bitcoin.address.Bech32Result;
+		try {
+			decoded = bitcoin.address.fromBech32(address);
+		} catch {
+			return false;
+		}
+		const network = Object.values(bitcoin.networks).find(
+			(network) => network.bech32 === decoded.prefix
+		);
+		if (!network || decoded.version !== 1 || decoded.data.length !== 32) return false;
+
+		const htlc = HTLC.create(undefined, undefined, params, network);
+		const { hash } = toHashTree(htlc.leaves() as Taptree);
+		const outputKey = tweakPubkey(htlc.internalPubkey, hash).xOnlyPubkey;
+		if (!Buffer.from(outputKey).equals(decoded.data)) return false;
+
+		if (!proof) return true;
+		return verifyLeafInclusion(
+			decoded.data,
+			toBuffer(proof.controlBlock),
+			toBuffer(proof.leafScript)
+		);
+	}
+
+	/**
+	 * Blinding scalar of the NUMS internal key as hex, shared with the counterparty so that it
+	 * can check the key path is unspendable (see `isUnspendableInternalKey`).
+	 * Undefined when the internal key is a MuSig2 aggregate.
+	 */
+	blinding(): string | undefined {
+		return this.blindingFactor?.toString("hex");
+	}
+
+	/**
+	 * Generates a taproot address for receiving the funds
+	 */
+	address(): string {
+		const { address } = bitcoin.payments.p2tr({
+			internalPubkey: this.internalPubkey,
+			network: this.network,
+			scriptTree: this.leaves() as Taptree,
+		});
+		if (!address) {
+			throw new HTLCKeyError(
+				HTLCErrorCode.ADDRESS_GENERATION_FAILED,
+				htlcErrors.htlcAddressGenerationFailed
+			);
+		}
+		return address;
+	}
+
+	/**
+	 * Output descriptor of the HTLC address with checksum (bip386), the leaves being written
+	 * as miniscript: `tr(<internal key>,{<redeem>,{<refund>,<instant refund>}})`
+	 *
+	 * Note: Only available for HTLCs created with `HTLCParams.miniscript`, as the leaves of
+	 * other HTLCs have no miniscript equivalent
+	 */
+	descriptor(): string {
+		assert(
+			this.miniscript,
+			new HTLCParamsError(
+				HTLCErrorCode.MINISCRIPT_REQUIRED,
+				htlcErrors.miniscriptRequired
+			)
+		);
+
+		const [timelock, locktime] =
+			this.expiryType === ExpiryType.ABSOLUTE
+				? ["after", this.expiry]
+				: ["older", this.relativeLocktime()];
+		const redeem = `and_v(v:sha256(${this.secretHash}),pk(${this.redeemerPubkey}))`;
+		const refund = `and_v(v:${timelock}(${locktime}),pk(${this.initiatorPubkey}))`;
+		const instantRefund = `multi_a(2,${this.initiatorPubkey},${this.redeemerPubkey})`;
+		return withChecksum(
+			`tr(${this.internalPubkey.toString(
+				"hex"
+			)},{${redeem},{${refund},${instantRefund}}})`
+		);
+	}
+
+	/**
+	 * Rebuilds the HTLC parameters from a descriptor exported by `HTLC.descriptor`.
+	 *
+	 * The internal key is recognized as the NUMS key shared by all HTLCs (the default), a key
+	 * blinded with the given `blinding`, a key blinded per HTLC (`perHtlcBlinding`) or a MuSig2 key.
+	 * Note: Descriptors with raw keys do not commit to a network, it has to be given
+	 * @param blinding blinding of the NUMS internal key, if it is not derived from the parameters
+	 */
+	static parseDescriptor(
+		descriptor: string,
+		network = bitcoin.networks.bitcoin,
+		blinding?: string
+	): { params: HTLCParams; network: bitcoin.networks.Network } {
+		const body = stripChecksum(descriptor);
+		if (body === undefined)
+			throw new HTLCParamsError(
+				HTLCErrorCode.DESCRIPTOR_CHECKSUM_MISMATCH,
+				htlcErrors.descriptorChecksumMismatch
+			);
+
+		const tr = body.match(/^tr\(([0-9a-f]{64}),\{(.*)\}\)$/);
+		if (!tr)
+			throw new HTLCParamsError(
+				HTLCErrorCode.INVALID_DESCRIPTOR,
+				htlcErrors.invalidDescriptor
+			);
+		const [redeem, refundBranch] = splitTopLevel(tr[2]);
+		const [refund, instantRefund] = splitTopLevel(refundBranch?.slice(1, -1) ?? "");
+
+		const redeemMatch = redeem.match(
+			/^and_v\(v:sha256\(([0-9a-f]{64})\),pk\(([0-9a-f]{64})\)\)$/
+		);
+		const refundMatch = refund?.match(
+			/^and_v\(v:(older|after)\((\d+)\),pk\(([0-9a-f]{64})\)\)$/
+		);
+		if (!redeemMatch || !refundMatch || instantRefund === undefined) {
+			throw new HTLCParamsError(
+				HTLCErrorCode.INVALID_DESCRIPTOR,
+				htlcErrors.invalidDescriptor
+			);
+		}
+
+		const locktime = Number(refundMatch[2]);
+		const params: HTLCParams = {
+			secretHash: redeemMatch[1],
+			initiatorPubkey: refundMatch[3],
+			redeemerPubkey: redeemMatch[2],
+			expiry: locktime,
+			expiryType: ExpiryType.ABSOLUTE,
+			miniscript: true,
+		};
+		if (refundMatch[1] === "older") {
+			params.expiry = locktime & SEQUENCE_LOCKTIME_MASK;
+			params.expiryType =
+				locktime & SEQUENCE_LOCKTIME_TYPE_FLAG
+					? ExpiryType.RELATIVE_TIME
+					: ExpiryType.RELATIVE;
+		}
+
+		const candidates: HTLCParams[] = [
+			params,
+			...(blinding ? [{ ...params, blinding }] : []),
+			{ ...params, perHtlcBlinding: true },
+			{ ...params, musig: true },
+		];
+		for (const candidate of candidates) {
+			const htlc = HTLC.create(undefined, undefined, candidate, network);
+			if (htlc.internalPubkey.toString("hex") !== tr[1]) continue;
+			// the rest of the descriptor (leaf order, timelock encoding) has to match as well
+			if (htlc.descriptor() !== withChecksum(body)) break;
+			return { params: candidate, network };
+		}
+		throw new HTLCParamsError(
+			HTLCErrorCode.INVALID_DESCRIPTOR,
+			htlcErrors.invalidDescriptor
 		);
-		assert(expiry > 0, htlcErrors.zeroOrNegativeExpiry);
+	}
+
+	/**
+	 * Fetches the utxos of the htlc address, the latest block height, the median times past
+	 * (if the backend has them) and the fee (if not given) from the backend
+	 */
+	private async fetchSpendOptions(fee?: Fee): Promise<OfflineSpendOptions> {
+		const address = this.address();
+		const backend = this.getBackend();
+		const utxos = await backend.getUTXOs(address);
+		const balance = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+		if (balance === 0) throw notFundedError(address);
+
+		const opts: OfflineSpendOptions = {
+			utxos,
+			tipHeight: await backend.getLatestTip(),
+		};
+		if (this.isTimeLocked()) Object.assign(opts, await fetchMedianTimes(backend, utxos));
+		if (typeof fee === "object") return { ...opts, feeRate: fee.feeRate };
+
+		return {
+			...opts,
+			fee: fee ?? (await backend.suggestFee(address, balance, Urgency.MEDIUM)),
+		};
+	}
+
+	/**
+	 * Builds a raw unsigned transaction spending the given utxos of the htlc address through the leaf,
+	 * or through the key path if no leaf is given.
+	 * Uses signer's address as the change output unless `outputs` are given.
+	 *
+	 * @param secret secret revealed by a redeem, its length is used to size the spend
+	 */
+	private async buildRawTx(
+		leaf: Leaf | undefined,
+		opts: OfflineSpendOptions,
+		secret?: Buffer
+	) {
+		const { utxos, fee, feeRate, outputs } = opts;
+		const balance = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+		if (balance === 0) throw notFundedError(this.address());
+		this.assertFunding(utxos, opts);
+
+		const tx = new bitcoin.Transaction();
+		tx.version = 2;
+
+		for (let i = 0; i < utxos.length; i++) {
+			tx.addInput(Buffer.from(utxos[i].txid, "hex").reverse(), utxos[i].vout);
+		}
+		if (leaf === Leaf.REFUND) {
+			// relative expiry is enforced by the sequence, absolute expiry by the locktime
+			if (this.expiryType === ExpiryType.ABSOLUTE) tx.locktime = this.expiry;
+			tx.ins.forEach((input) => (input.sequence = this.refundSequence(opts.rbf)));
+		} else if (opts.rbf) {
+			tx.ins.forEach((input) => (input.sequence = SEQUENCE_RBF));
+		}
+
+		addOutputs(
+			tx,
+			{
+				balance,
+				fee,
+				feeRate,
+				maxFeeRate: opts.maxFeeRate ?? this.checks.maxFeeRate,
+				outputs: outputs ?? [{ address: await this.changeAddress(), change: true }],
+			},
+			this.network,
+			(outputScripts) =>
+				this.spendVsize(leaf, utxos.length, outputScripts, secret?.length)
+		);
+
+		return tx;
+	}
+
+	/**
+	 * Estimates the virtual size of a transaction spending `inputCount` utxos of the HTLC
+	 * through the leaf, so that spends can be priced before being built (fee = vsize * fee rate).
+	 *
+	 * Accounts for the signatures, the secret (assumed to be 32 bytes), the leaf script
+	 * and the control block of the leaf.
+	 * @param outputs destination addresses, defaults to a single taproot output
+	 */
+	estimateSpendVsize(leaf: Leaf, inputCount: number, outputs?: string[]): number {
+		const outputScripts = outputs
+			? outputs.map((output) => bitcoin.address.toOutputScript(output, this.network))
+			: [this.getOutputScript()];
+		return this.spendVsize(leaf, inputCount, outputScripts);
+	}
+
+	/**
+	 * Exact virtual size of a version 2 transaction with `inputCount` inputs spending
+	 * the leaf (or the key path if no leaf is given) and the given outputs
+	 */
+	private spendVsize(
+		leaf: Leaf | undefined,
+		inputCount: number,
+		outputScripts: Buffer[],
+		secretLength = 32
+	): number {
+		const witness = this.placeholderWitness(leaf, secretLength);
+		return txVsize(Array(inputCount).fill(witness), outputScripts);
+	}
+
+	/**
+	 * Witness of the leaf (or the key path if no leaf is given) with placeholder signatures
+	 * and secret, used to size spends before signing
+	 */
+	private placeholderWitness(leaf: Leaf | undefined, secretLength = 32): Buffer[] {
+		if (leaf === undefined) return [SCHNORR_SIG_PLACEHOLDER];
+		return this.witnessFor(
+			leaf,
+			{ initiator: SCHNORR_SIG_PLACEHOLDER, redeemer: SCHNORR_SIG_PLACEHOLDER },
+			Buffer.alloc(secretLength)
+		);
+	}
+
+	/**
+	 * prevout script for the htlc address
+	 */
+	private getOutputScript() {
+		return bitcoin.address.toOutputScript(this.address(), this.network);
+	}
+
+	/**
+	 * Funds the HTLC from the signer's wallet.
+	 * Given `refund`, also returns a refund of the new funding output signed right away
+	 * (see `presignRefund`), which can be broadcast once the HTLC expires without this library.
+	 * @returns txid of the funding transaction
+	 */
+	async initiate(amount: number, fee?: number): Promise<string>;
+	async initiate(
+		amount: number,
+		fee: number | undefined,
+		refund: PresignRefundOptions
+	): Promise<{ txid: string; refund: PresignedRefund }>;
+	async initiate(
+		amount: number,
+		fee?: number,
+		refund?: PresignRefundOptions
+	): Promise<string | { txid: string; refund: PresignedRefund }> {
+		const signer = this.getSigner();
+		if (!signer.send) {
+			throw new HTLCParamsError(
+				HTLCErrorCode.FUNDING_WALLET_REQUIRED,
+				htlcErrors.fundingWalletRequired
+			);
+		}
+		fee ??= await this.getBackend().suggestFee(
+			await this.changeAddress(),
+			amount,
+			Urgency.MEDIUM
+		);
+
+		const txid = await signer.send(this.address(), amount, fee);
+		if (!refund) return txid;
+
+		return { txid, refund: await this.presignRefund(txid, refund) };
+	}
+
+	/**
+	 * Signs a refund of the HTLC output of the funding transaction, which nodes accept
+	 * once the HTLC expires. The funding transaction does not need to be confirmed yet.
+	 */
+	async presignRefund(
+		fundingTxid: string,
+		{ address, feeRate }: PresignRefundOptions
+	): Promise<PresignedRefund> {
+		const fundingTx = bitcoin.Transaction.fromHex(
+			await this.getBackend().getTransactionHex(fundingTxid)
+		);
+		const outputScript = this.getOutputScript();
+		const vout = fundingTx.outs.findIndex(({ script }) => script.equals(outputScript));
+		if (vout === -1) throw notFundedError(this.address());
+
+		const utxo = { txid: fundingTxid, vout, value: fundingTx.outs[vout].value };
+		const utxos: BitcoinUTXO[] = [{ ...utxo, status: { confirmed: false } }];
+		const txHex = await this.signRefund({
+			utxos,
+			tipHeight: 0,
+			feeRate,
+			outputs: [{ address, change: true }],
+			minConfirmations: 0,
+		});
+		HTLC.assertValidSpend(txHex, [{ htlc: this, utxos }]);
+
+		return { txHex, utxo };
+	}
+
+	/**
+	 * Builds an unsigned PSBT funding the HTLC with `amount` sats from exactly the given utxos,
+	 * for wallets which can not send funds through the signer (see `initiate`).
+	 * The PSBT is verified like `verifyFunding` before being returned, verify it again once signed.
+	 */
+	fundingPsbt(
+		amount: number,
+		{
+			inputs,
+			changeAddress,
+			fee,
+			feeRate,
+			maxFeeRate = this.checks.maxFeeRate ?? DEFAULT_MAX_FEE_RATE,
+			swapId,
+			rbf,
+		}: FundingOptions
+	): bitcoin.Psbt {
+		const address = this.address();
+		const htlcScript = this.getOutputScript();
+		assert(
+			Number.isInteger(amount) && amount > 0,
+			new HTLCSpendError(
+				HTLCErrorCode.INVALID_OUTPUT_AMOUNT,
+				htlcErrors.invalidOutputAmount(address),
+				{ address, amount }
+			)
+		);
+		const threshold = dustThreshold(htlcScript);
+		assert(
+			amount >= threshold,
+			new HTLCSpendError(
+				HTLCErrorCode.DUST_OUTPUT,
+				htlcErrors.dustOutput(address, amount, threshold),
+				{ address, amount }
+			)
+		);
+
+		const inputScripts = inputs.map((input) =>
+			bitcoin.address.toOutputScript(input.address, this.network)
+		);
+		const changeScript = bitcoin.address.toOutputScript(changeAddress, this.network);
+		const swapIdScript = swapId === undefined ? undefined : opReturnScript(swapId);
+		const witnesses = inputScripts.map(placeholderKeyWitness);
+		const priced = witnesses.every((witness) => witness !== undefined);
+		// legacy inputs are sized without their script sig, they are only priced by absolute fees
+		const vsize = (withChange: boolean) =>
+			txVsize(
+				witnesses.map((witness) => witness ?? []),
+				[
+					htlcScript,
+					...(withChange ? [changeScript] : []),
+					...(swapIdScript ? [swapIdScript] : []),
+				]
+			);
+		const feeFor = (withChange: boolean) => {
+			if (fee !== undefined) return fee;
+			assert(
+				feeRate !== undefined,
+				new HTLCSpendError(
+					HTLCErrorCode.FEE_OR_FEE_RATE_REQUIRED,
+					htlcErrors.feeOrFeeRateRequired
+				)
+			);
+			assert(
+				priced,
+				new HTLCParamsError(
+					HTLCErrorCode.FUNDING_INPUT_UNSUPPORTED,
+					htlcErrors.fundingInputUnsupported(witnesses.indexOf(undefined))
+				)
+			);
+			return Math.ceil(vsize(withChange) * feeRate!);
+		};
+
+		let txFee = feeFor(true);
+		assert(
+			Number.isInteger(txFee) && txFee >= 0,
+			new HTLCSpendError(HTLCErrorCode.INVALID_FEE, htlcErrors.invalidFee(txFee), {
+				fee: txFee,
+			})
+		);
+		const balance = inputs.reduce((acc, input) => acc + input.value, 0);
+		let change = balance - amount - txFee;
+		if (change < dustThreshold(changeScript)) {
+			change = 0;
+			txFee = balance - amount;
+			const needed = amount + feeFor(false);
+			assert(
+				balance >= needed,
+				new HTLCSpendError(
+					HTLCErrorCode.INSUFFICIENT_FUNDING_INPUTS,
+					htlcErrors.insufficientFundingInputs(balance, needed),
+					{ fee: needed - amount }
+				)
+			);
+		}
+		const actualFeeRate = txFee / vsize(change > 0);
+		assert(
+			!priced || actualFeeRate <= maxFeeRate,
+			new HTLCSpendError(
+				HTLCErrorCode.FEE_RATE_TOO_HIGH,
+				htlcErrors.feeRateTooHigh(actualFeeRate, maxFeeRate),
+				{ fee: txFee }
+			)
+		);
+
+		const psbt = new bitcoin.Psbt({ network: this.network });
+		psbt.setVersion(2);
+		inputs.forEach((input, i) => {
+			const segwit = isWitnessProgram(inputScripts[i]);
+			assert(
+				segwit || input.txHex !== undefined,
+				new HTLCParamsError(
+					HTLCErrorCode.FUNDING_INPUT_TX_REQUIRED,
+					htlcErrors.fundingInputTxRequired(i)
+				)
+			);
+			psbt.addInput({
+				hash: Buffer.from(input.txid, "hex").reverse(),
+				index: input.vout,
+				sequence: rbf ? SEQUENCE_RBF : SEQUENCE_FINAL,
+				...(segwit && { witnessUtxo: { script: inputScripts[i], value: input.value } }),
+				...(input.txHex && { nonWitnessUtxo: Buffer.from(input.txHex, "hex") }),
+			});
+		});
+		psbt.addOutput({ script: htlcScript, value: amount });
+		if (change > 0) psbt.addOutput({ script: changeScript, value: change });
+		if (swapIdScript) psbt.addOutput({ script: swapIdScript, value: 0 });
+
+		this.verifyFunding(psbt, amount, swapId);
+		return psbt;
+	}
+
+	/**
+	 * Throws unless the funding transaction (or PSBT) pays exactly `amount` sats to the HTLC
+	 * in a single output and, if given, commits to the swap id.
+	 * @param funding raw transaction or PSBT
+	 * @returns index of the HTLC output
+	 */
+	verifyFunding(funding: string | bitcoin.Psbt, amount: number, swapId?: string): number {
+		const outputs =
+			typeof funding === "string"
+				? bitcoin.Transaction.fromHex(funding).outs
+				: funding.txOutputs;
+		const address = this.address();
+		const htlcScript = this.getOutputScript();
+		const vouts = outputs.flatMap(({ script }, i) =>
+			script.equals(htlcScript) ? [i] : []
+		);
+		const balance = vouts.reduce((acc, vout) => acc + outputs[vout].value, 0);
+		assert(
+			vouts.length === 1 && balance === amount,
+			new HTLCFundingError(
+				HTLCErrorCode.FUNDING_OUTPUT_MISMATCH,
+				htlcErrors.fundingOutputMismatch(address, amount),
+				{ address, balance }
+			)
+		);
+		if (swapId !== undefined) {
+			const swapIdScript = opReturnScript(swapId);
+			assert(
+				outputs.some(({ script }) => script.equals(swapIdScript)),
+				new HTLCFundingError(
+					HTLCErrorCode.SWAP_ID_NOT_COMMITTED,
+					htlcErrors.swapIdNotCommitted,
+					{ address }
+				)
+			);
+		}
+		return vouts[0];
+	}
+
+	/**
+	 * Instantly refunds the funds to the initiator given the counterparty's signatures and pubkey
+	 *
+	 * Note: If there are multiple UTXOs being spend, there should be a signature for each UTXO in counterPartySigs
+	 */
+	async instantRefund(
+		counterPartySigs: CounterpartySig[],
+		fee?: Fee,
+		outputs?: SpendOutput[]
+	) {
+		const opts = { ...(await this.fetchSpendOptions(fee)), outputs };
+		const txHex = await this.buildInstantRefundTx(counterPartySigs, opts);
+		HTLC.assertValidSpend(txHex, [{ htlc: this, utxos: opts.utxos }]);
+
+		return await this.getBackend().broadcast(txHex);
+	}
+
+	/**
+	 * Builds and signs an instant refund transaction from the given utxos without broadcasting it
+	 *
+	 * Note: If there are multiple UTXOs being spend, there should be a signature for each UTXO in counterPartySigs
+	 * @returns raw signed transaction hex
+	 */
+	async buildInstantRefundTx(
+		counterPartySigs: CounterpartySig[],
+		opts: OfflineSpendOptions
+	): Promise<string> {
+		const tx = await this.buildRawTx(Leaf.INSTANT_REFUND, opts);
+
+		const hashes = this.instantRefundSighashes(tx, opts.utxos);
+		const redeemerSigs = this.verifyCounterPartySigs(hashes, opts.utxos, counterPartySigs);
+
+		for (let i = 0; i < tx.ins.length; i++) {
+			const signature = await this.getSigner().signSchnorr(hashes[i]);
+
+			tx.setWitness(
+				i,
+				this.witnessFor(Leaf.INSTANT_REFUND, {
+					redeemer: redeemerSigs[i],
+					initiator: signature,
+				})
+			);
+		}
+
+		return tx.toHex();
+	}
+
+	/**
+	 * Signs the instant refund leaf for every UTXO of the HTLC.
+	 * Should be called by the redeemer, the signatures are then handed over to the initiator
+	 * who passes them to `instantRefund`.
+	 *
+	 * Note: refundAddress and fee should be the same as the ones the initiator's `instantRefund` uses,
+	 * i.e the initiator's address (or the agreed outputs) and the agreed fee
+	 * @param refundAddress address of the initiator receiving the refund or the outputs of the refund
+	 * @returns signature of the redeemer for each utxo
+	 */
+	async signInstantRefund(
+		refundAddress: string | SpendOutput[],
+		fee?: Fee
+	): Promise<CounterpartySig[]> {
+		const opts = await this.fetchSpendOptions(fee);
+		const tx = await this.buildRawTx(Leaf.INSTANT_REFUND, {
+			...opts,
+			outputs: toSpendOutputs(refundAddress),
+		});
+
+		const hashes = this.instantRefundSighashes(tx, opts.utxos);
+		const sigs = [];
+		for (let i = 0; i < hashes.length; i++) {
+			const signature = await this.getSigner().signSchnorr(hashes[i]);
+			const { txid, vout } = opts.utxos[i];
+			sigs.push({ utxo: txid, vout, sig: signature.toString("hex") });
+		}
+		return sigs;
+	}
+
+	/**
+	 * Verifies the redeemer's instant refund signatures produced by `signInstantRefund`.
+	 * Throws if a signature is missing or invalid for any of the UTXOs of the HTLC.
+	 *
+	 * @param refundAddress address of the initiator receiving the refund or the outputs of the refund
+	 */
+	async verifyInstantRefundSigs(
+		counterPartySigs: CounterpartySig[],
+		refundAddress: string | SpendOutput[],
+		fee?: Fee
+	): Promise<void> {
+		const opts = await this.fetchSpendOptions(fee);
+		const tx = await this.buildRawTx(Leaf.INSTANT_REFUND, {
+			...opts,
+			outputs: toSpendOutputs(refundAddress),
+		});
+		this.verifyCounterPartySigs(
+			this.instantRefundSighashes(tx, opts.utxos),
+			opts.utxos,
+			counterPartySigs
+		);
+	}
+
+	/**
+	 * sighashes of every input spending through the instant refund leaf
+	 */
+	private instantRefundSighashes(tx: bitcoin.Transaction, utxos: BitcoinUTXO[]): Buffer[] {
+		const instantRefundLeafHash = this.leafHash(Leaf.INSTANT_REFUND);
+
+		const values = utxos.map((utxo) => utxo.value);
+		const outputs = generateOutputs(this.getOutputScript(), utxos.length);
+
+		const hashType = bitcoin.Transaction.SIGHASH_DEFAULT;
+		return tx.ins.map((_, i) =>
+			tx.hashForWitnessV1(i, outputs, values, hashType, instantRefundLeafHash)
+		);
+	}
+
+	/**
+	 * Ensures there is a valid redeemer signature for each utxo
+	 * @returns redeemer's signatures ordered by the utxos
+	 */
+	private verifyCounterPartySigs(
+		hashes: Buffer[],
+		utxos: BitcoinUTXO[],
+		counterPartySigs: CounterpartySig[]
+	): Buffer[] {
+		assert(
+			counterPartySigs.length > 0,
+			new HTLCSignatureError(
+				HTLCErrorCode.NO_COUNTERPARTY_SIGS,
+				htlcErrors.noCounterpartySigs
+			)
+		);
+
+		return utxos.map((utxo, i) => {
+			const counterPartySig = counterPartySigs.find(
+				(sig) => sig.utxo === utxo.txid && sig.vout === utxo.vout
+			);
+			if (!counterPartySig)
+				throw new HTLCSignatureError(
+					HTLCErrorCode.COUNTERPARTY_SIG_NOT_FOUND,
+					htlcErrors.counterPartySigNotFound(`${utxo.txid}:${utxo.vout}`),
+					{ utxo: utxo.txid, input: i }
+				);
+
+			const sig = Buffer.from(counterPartySig.sig, "hex");
+			if (!ecc.verifySchnorr(hashes[i], Buffer.from(this.redeemerPubkey, "hex"), sig)) {
+				throw new HTLCSignatureError(
+					HTLCErrorCode.INVALID_COUNTERPARTY_SIG,
+					htlcErrors.invalidCounterpartySigForUTXO(`${utxo.txid}:${utxo.vout}`),
+					{ utxo: utxo.txid, input: i }
+				);
+			}
+			return sig;
+		});
+	}
+
+	/**
+	 * Reveals the secret and redeems the HTLC
+	 * @param outputs destinations of the funds, defaults to the signer's address
+	 * @param rbf signal replaceability (bip125) so that the fee can be bumped with `bumpFee`
+	 */
+	async redeem(
+		secret: string,
+		fee?: Fee,
+		outputs?: SpendOutput[],
+		rbf = false
+	): Promise<string> {
+		const opts = { ...(await this.fetchSpendOptions(fee)), outputs, rbf };
+		const txHex = await this.buildRedeemTx(secret, opts);
+		HTLC.assertValidSpend(txHex, [{ htlc: this, utxos: opts.utxos }]);
+
+		// broadcast the transaction
+		return await this.getBackend().broadcast(txHex);
+	}
+
+	/**
+	 * Builds and signs a redeem transaction from the given utxos without broadcasting it
+	 * @returns raw signed transaction hex
+	 */
+	async buildRedeemTx(secret: string, opts: OfflineSpendOptions): Promise<string> {
+		this.assertSecret(Buffer.from(secret, "hex"));
+
+		const tx = await this.buildRawTx(Leaf.REDEEM, opts, Buffer.from(secret, "hex"));
+
+		// Revealing leaf hash
+		const redeemLeafHash = this.leafHash(Leaf.REDEEM);
+
+		const values = opts.utxos.map((utxo) => utxo.value);
+		const outputs = generateOutputs(this.getOutputScript(), opts.utxos.length);
+
+		// sign the transaction
+		const hashType = bitcoin.Transaction.SIGHASH_DEFAULT;
+		for (let i = 0; i < tx.ins.length; i++) {
+			const hash = tx.hashForWitnessV1(i, outputs, values, hashType, redeemLeafHash);
+			const signature = await this.getSigner().signSchnorr(hash);
+
+			tx.setWitness(
+				i,
+				this.witnessFor(
+					Leaf.REDEEM,
+					{ redeemer: signature },
+					Buffer.from(secret, "hex")
+				)
+			);
+		}
+
+		return tx.toHex();
+	}
+
+	/**
+	 * Refunds the funds back to the initiator if the expiry block height + 1 is reached
+	 * @param outputs destinations of the funds, defaults to the signer's address
+	 * @param rbf signal replaceability (bip125) so that the fee can be bumped with `bumpFee`
+	 */
+	async refund(fee?: Fee, outputs?: SpendOutput[], rbf = false): Promise<string> {
+		const opts = { ...(await this.fetchSpendOptions(fee)), outputs, rbf };
+		const txHex = await this.buildRefundTx(opts);
+		HTLC.assertValidSpend(txHex, [{ htlc: this, utxos: opts.utxos }]);
+
+		return await this.getBackend().broadcast(txHex);
+	}
+
+	/**
+	 * Builds and signs a refund transaction from the given utxos without broadcasting it.
+	 * `opts.tipHeight` (or `opts.medianTimePast` for timestamp expiries) is used to ensure the utxos are expired.
+	 * @returns raw signed transaction hex
+	 */
+	async buildRefundTx(opts: OfflineSpendOptions): Promise<string> {
+		this.assertRefundable(opts);
+		return await this.signRefund(opts);
+	}
+
+	/**
+	 * Signs a refund of the utxos, whether they are expired or not
+	 */
+	private async signRefund(opts: OfflineSpendOptions): Promise<string> {
+		const tx = await this.buildRawTx(Leaf.REFUND, opts);
+
+		const refundLeafHash = this.leafHash(Leaf.REFUND);
+
+		const values = opts.utxos.map((utxo) => utxo.value);
+		const outputs = generateOutputs(this.getOutputScript(), opts.utxos.length);
+
+		const hashType = bitcoin.Transaction.SIGHASH_DEFAULT;
+
+		for (let i = 0; i < tx.ins.length; i++) {
+			const hash = tx.hashForWitnessV1(i, outputs, values, hashType, refundLeafHash);
+			const signature = await this.getSigner().signSchnorr(hash);
+
+			tx.setWitness(i, this.witnessFor(Leaf.REFUND, { initiator: signature }));
+		}
+
+		return tx.toHex();
+	}
+
+	/**
+	 * Refunds only the utxos which are already expired, leaving the others locked at the address.
+	 * Unlike `refund`, a late top-up of the HTLC does not block refunding the expired funds.
+	 * @param outputs destinations of the funds, defaults to the signer's address
+	 * @param rbf signal replaceability (bip125) so that the fee can be bumped with `bumpFee`
+	 * @returns txid of the refund and the utxos which are still locked
+	 */
+	async partialRefund(
+		fee?: Fee,
+		outputs?: SpendOutput[],
+		rbf = false
+	): Promise<{ txid: string; locked: LockedUTXO[] }> {
+		const opts = { ...(await this.fetchSpendOptions(fee)), outputs, rbf };
+		const { txHex, locked } = await this.buildPartialRefundTx(opts);
+		HTLC.assertValidSpend(txHex, [{ htlc: this, utxos: opts.utxos }]);
+
+		return { txid: await this.getBackend().broadcast(txHex), locked };
+	}
+
+	/**
+	 * Builds and signs a refund transaction spending only the expired utxos among the given ones
+	 * without broadcasting it. Throws like `buildRefundTx` if none of them is expired.
+	 * @returns raw signed transaction hex and the utxos which are still locked
+	 */
+	async buildPartialRefundTx(
+		opts: OfflineSpendOptions
+	): Promise<{ txHex: string; locked: LockedUTXO[] }> {
+		const expired: BitcoinUTXO[] = [];
+		const locked: LockedUTXO[] = [];
+		for (const utxo of opts.utxos) {
+			const lock = this.remainingLock({ ...opts, utxos: [utxo] });
+			if (lock) locked.push({ txid: utxo.txid, vout: utxo.vout, ...lock });
+			else expired.push(utxo);
+		}
+		if (expired.length === 0) this.assertRefundable(opts);
+
+		return { txHex: await this.buildRefundTx({ ...opts, utxos: expired }), locked };
+	}
+
+	/**
+	 * Replaces a stuck redeem or refund of the HTLC by the same spend paying a higher fee
+	 * (see `buildBumpedTx`). The spent utxos are fetched from the backend.
+	 * The replaced transaction should signal replaceability (see the `rbf` parameter of `redeem`).
+	 *
+	 * @param txid id of the transaction to replace
+	 * @param fee fee or fee rate of the replacement
+	 * @param outputs outputs of the replaced transaction, required only if it has many outputs
+	 * @returns txid of the replacement
+	 */
+	async bumpFee(txid: string, fee: Fee, outputs?: SpendOutput[]): Promise<string> {
+		const backend = this.getBackend();
+		const txHex = await backend.getTransactionHex(txid);
+		const { vin } = await backend.getTransaction(txid);
+
+		const utxos: BitcoinUTXO[] = [];
+		for (const input of vin) {
+			const { status } = await backend.getTransaction(input.txid);
+			const utxo = { txid: input.txid, vout: input.vout, value: input.prevout.value };
+			utxos.push(
+				status.confirmed && status.block_height !== undefined
+					? {
+							...utxo,
+							status: { confirmed: true, block_height: status.block_height },
+					  }
+					: { ...utxo, status: { confirmed: false } }
+			);
+		}
+		const tipHeight = await backend.getLatestTip();
+		const medianTimes = this.isTimeLocked() ? await fetchMedianTimes(backend, utxos) : {};
+
+		const replacement = await this.buildBumpedTx(txHex, {
+			utxos,
+			tipHeight,
+			...medianTimes,
+			outputs,
+			...(typeof fee === "object" ? { feeRate: fee.feeRate } : { fee }),
+		});
+		HTLC.assertValidSpend(replacement, [{ htlc: this, utxos }]);
+		return await backend.broadcast(replacement);
+	}
+
+	/**
+	 * Builds and signs a replacement of a redeem or refund of the HTLC paying the fee
+	 * (or fee rate) of `opts`, without broadcasting it. The same leaf is signed again and the
+	 * secret of a redeem is taken from the replaced transaction. The replacement signals
+	 * replaceability (bip125), so it can be bumped again.
+	 *
+	 * Note: The outputs of the replaced transaction are kept, its change output paying the extra
+	 * fee. `opts.outputs` is required only if the replaced transaction has many outputs.
+	 * @param txHex raw transaction to replace
+	 * @param opts `opts.utxos` should contain the utxos spent by the transaction to replace
+	 * @returns raw signed replacement hex
+	 */
+	async buildBumpedTx(txHex: string, opts: OfflineSpendOptions): Promise<string> {
+		const tx = bitcoin.Transaction.fromHex(txHex);
+		const utxos = tx.ins.map((input) => {
+			const txid = Buffer.from(input.hash).reverse().toString("hex");
+			const utxo = opts.utxos.find((u) => u.txid === txid && u.vout === input.index);
+			if (!utxo) {
+				throw new HTLCParamsError(
+					HTLCErrorCode.SPENT_UTXO_NOT_FOUND,
+					htlcErrors.spentUtxoNotFound(txid, input.index)
+				);
+			}
+			return utxo;
+		});
+
+		// instant refunds and key path spends need the counterparty to sign again
+		const leaves = new Set(tx.ins.map((input) => this.leafFromWitness(input.witness)));
+		const [leaf] = leaves;
+		assert(
+			leaves.size === 1 && (leaf === Leaf.REDEEM || leaf === Leaf.REFUND),
+			new HTLCParamsError(HTLCErrorCode.CANNOT_BUMP_LEAF, htlcErrors.cannotBumpLeaf)
+		);
+
+		const replacementOpts: OfflineSpendOptions = {
+			...opts,
+			utxos,
+			outputs: opts.outputs ?? this.replacedOutputs(tx),
+			rbf: true,
+		};
+		let replacementHex: string;
+		if (leaf === Leaf.REDEEM) {
+			const secret = this.secretFromWitness(tx.ins[0].witness);
+			assert(
+				!!secret,
+				new HTLCParamsError(HTLCErrorCode.SECRET_REQUIRED, htlcErrors.secretRequired)
+			);
+			replacementHex = await this.buildRedeemTx(secret!, replacementOpts);
+		} else {
+			replacementHex = await this.buildRefundTx(replacementOpts);
+		}
+		const replacement = bitcoin.Transaction.fromHex(replacementHex);
+		if (leaf === Leaf.REFUND) this.assertRefundLocks(replacement);
+
+		// bip125: the replacement pays for its own relay on top of the fee it replaces
+		const balance = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+		const feeOf = ({ outs }: bitcoin.Transaction) =>
+			outs.reduce((acc, out) => acc - out.value, balance);
+		const [oldFee, newFee] = [feeOf(tx), feeOf(replacement)];
+		const minFee =
+			oldFee + Math.ceil(replacement.virtualSize() * INCREMENTAL_RELAY_FEE_RATE);
+		assert(
+			newFee >= minFee,
+			new HTLCSpendError(
+				HTLCErrorCode.FEE_BUMP_TOO_LOW,
+				htlcErrors.feeBumpTooLow(oldFee, newFee, minFee),
+				{ fee: newFee }
+			)
+		);
+
+		return replacementHex;
+	}
+
+	/**
+	 * Outputs of a replaced transaction with a single output, which is its change output
+	 */
+	private replacedOutputs(tx: bitcoin.Transaction): SpendOutput[] {
+		assert(
+			tx.outs.length === 1,
+			new HTLCParamsError(
+				HTLCErrorCode.CHANGE_OUTPUT_UNKNOWN,
+				htlcErrors.changeOutputUnknown
+			)
+		);
+		const address = bitcoin.address.fromOutputScript(tx.outs[0].script, this.network);
+		return [{ address, change: true }];
+	}
+
+	/**
+	 * Builds an unsigned PSBT of a child spending an output of a stuck HTLC spend, such as
+	 * the redeem output of the signer, with a fee high enough for the parent and the child to
+	 * reach the fee rate together (CPFP).
+	 * The PSBT has to be signed by the owner of the output before being finalized and broadcasted.
+	 *
+	 * @param parentTxid stuck transaction spending the HTLC
+	 * @param feeRate fee rate the parent and the child should reach together in sats/vbyte
+	 * @param vout output of the parent to spend, defaults to the one paying the signer
+	 */
+	async cpfpPsbt(parentTxid: string, feeRate: number, vout?: number): Promise<bitcoin.Psbt> {
+		const backend = this.getBackend();
+		const parent = await backend.getTransaction(parentTxid);
+		const signerAddress = await this.changeAddress();
+
+		return this.buildCpfpPsbt(await backend.getTransactionHex(parentTxid), {
+			parentFee: parent.fee,
+			feeRate,
+			vout:
+				vout ??
+				parent.vout.findIndex(
+					(output) => output.scriptpubkey_address === signerAddress
+				),
+		});
+	}
+
+	/**
+	 * Builds an unsigned child paying for a stuck HTLC spend (see `cpfpPsbt`)
+	 * without querying a provider
+	 * @param parentTxHex raw stuck transaction
+	 */
+	buildCpfpPsbt(
+		parentTxHex: string,
+		{
+			parentFee,
+			vout,
+			feeRate,
+			maxFeeRate = this.checks.maxFeeRate ?? DEFAULT_MAX_FEE_RATE,
+			outputs,
+		}: CpfpOptions
+	): bitcoin.Psbt {
+		const parent = bitcoin.Transaction.fromHex(parentTxHex);
+		const output = parent.outs[vout];
+		const witness = output && placeholderKeyWitness(output.script);
+		if (!witness) {
+			throw new HTLCParamsError(
+				HTLCErrorCode.CPFP_OUTPUT_UNSUPPORTED,
+				htlcErrors.cpfpOutputUnsupported(vout)
+			);
+		}
+		outputs ??= [
+			{
+				address: bitcoin.address.fromOutputScript(output.script, this.network),
+				change: true,
+			},
+		];
+
+		const tx = new bitcoin.Transaction();
+		tx.version = 2;
+		tx.addInput(parent.getHash(), vout, SEQUENCE_RBF);
+
+		const outputScripts = outputs.map((output) =>
+			bitcoin.address.toOutputScript(output.address, this.network)
+		);
+		const childVsize = txVsize([witness], outputScripts);
+		const packageVsize = parent.virtualSize() + childVsize;
+		const fee = Math.max(
+			Math.ceil(packageVsize * feeRate) - parentFee,
+			Math.ceil(childVsize * INCREMENTAL_RELAY_FEE_RATE)
+		);
+		const packageFeeRate = (parentFee + fee) / packageVsize;
+		assert(
+			packageFeeRate <= maxFeeRate,
+			new HTLCSpendError(
+				HTLCErrorCode.FEE_RATE_TOO_HIGH,
+				htlcErrors.feeRateTooHigh(packageFeeRate, maxFeeRate),
+				{ fee }
+			)
+		);
+		// the child alone pays more than the package fee rate, the cap is checked on the package
+		addOutputs(
+			tx,
+			{ balance: output.value, fee, maxFeeRate: Infinity, outputs },
+			this.network,
+			() => childVsize
+		);
+
+		const psbt = new bitcoin.Psbt({ network: this.network });
+		psbt.setVersion(tx.version);
+		psbt.addInput({
+			hash: tx.ins[0].hash,
+			index: vout,
+			sequence: SEQUENCE_RBF,
+			witnessUtxo: { script: output.script, value: output.value },
+		});
+		for (const out of tx.outs) {
+			psbt.addOutput({ script: out.script, value: out.value });
+		}
+		return psbt;
+	}
+
+	/**
+	 * Redeems and refunds many HTLCs in a single transaction, each HTLC spending its utxos with
+	 * its own signer through the redeem leaf (if a secret is given) or the refund leaf.
+	 * Utxos, block height, median times past (for time based refunds) and fee are fetched
+	 * from the backend of the first HTLC.
+	 *
+	 * @param outputs destinations of the funds, defaults to the first HTLC signer's address
+	 * @param rbf signal replaceability (bip125)
+	 * @returns txid of the batch transaction
+	 */
+	static async batch(
+		spends: BatchSpend[],
+		fee?: Fee,
+		outputs?: SpendOutput[],
+		rbf = false
+	): Promise<string> {
+		assert(
+			spends.length > 0,
+			new HTLCParamsError(HTLCErrorCode.EMPTY_BATCH, htlcErrors.emptyBatch)
+		);
+		const backend = spends[0].htlc.getBackend();
+
+		const utxos: BitcoinUTXO[][] = [];
+		for (const { htlc } of spends) {
+			const address = htlc.address();
+			const htlcUtxos = await backend.getUTXOs(address);
+			if (htlcUtxos.length === 0) throw notFundedError(address);
+			utxos.push(htlcUtxos);
+		}
+		const tipHeight = await backend.getLatestTip();
+
+		const opts: Omit<OfflineSpendOptions, "utxos"> = { tipHeight, outputs, rbf };
+		if (typeof fee === "object") {
+			opts.feeRate = fee.feeRate;
+		} else {
+			const balance = utxos.flat().reduce((acc, utxo) => acc + utxo.value, 0);
+			opts.fee =
+				fee ??
+				(await backend.suggestFee(spends[0].htlc.address(), balance, Urgency.MEDIUM));
+		}
+
+		const spent = spends.map((spend, i) => ({ ...spend, utxos: utxos[i] }));
+		const timeLocked = spent.filter(
+			({ htlc, secret }) => secret === undefined && htlc.isTimeLocked()
+		);
+		if (timeLocked.length > 0) {
+			Object.assign(
+				opts,
+				await fetchMedianTimes(
+					backend,
+					timeLocked.flatMap(({ utxos }) => utxos)
+				)
+			);
+		}
+		const txHex = await HTLC.buildBatchTx(spent, opts);
+		HTLC.assertValidSpend(txHex, spent);
+		return await backend.broadcast(txHex);
+	}
+
+	/**
+	 * Builds and signs a batch transaction (see `HTLC.batch`) from the given utxos
+	 * without broadcasting it. Every HTLC being refunded has to be expired.
+	 *
+	 * Note: Absolute expiries of the refunded HTLCs should all be block heights or all be timestamps
+	 * @param spends HTLCs with the utxos of their address to spend
+	 * @param opts `tipHeight`, `medianTimePast` and `confirmationTimes` are used to ensure the refunded utxos are expired
+	 * @returns raw signed transaction hex
+	 */
+	static async buildBatchTx(
+		spends: (BatchSpend & { utxos: BitcoinUTXO[] })[],
+		opts: Omit<OfflineSpendOptions, "utxos">
+	): Promise<string> {
+		assert(
+			spends.length > 0,
+			new HTLCParamsError(HTLCErrorCode.EMPTY_BATCH, htlcErrors.emptyBatch)
+		);
+		const network = spends[0].htlc.network;
+
+		const inputs = spends.flatMap(({ htlc, secret, utxos }) => {
+			assert(
+				htlc.network.bech32 === network.bech32,
+				new HTLCParamsError(
+					HTLCErrorCode.BATCH_NETWORK_MISMATCH,
+					htlcErrors.batchNetworkMismatch
+				)
+			);
+			if (utxos.length === 0) throw notFundedError(htlc.address());
+
+			htlc.assertFunding(utxos, { ...opts, utxos, expectedAmount: undefined });
+			const preimage = secret === undefined ? undefined : Buffer.from(secret, "hex");
+			if (preimage) htlc.assertSecret(preimage);
+			else htlc.assertRefundable({ ...opts, utxos });
+
+			const leaf = preimage ? Leaf.REDEEM : Leaf.REFUND;
+			return utxos.map((utxo) => ({ htlc, leaf, preimage, utxo }));
+		});
+
+		const tx = new bitcoin.Transaction();
+		tx.version = 2;
+		const locktimes: number[] = [];
+		for (const { htlc, leaf, utxo } of inputs) {
+			const index = tx.addInput(Buffer.from(utxo.txid, "hex").reverse(), utxo.vout);
+			if (leaf !== Leaf.REFUND) {
+				if (opts.rbf) tx.ins[index].sequence = SEQUENCE_RBF;
+				continue;
+			}
+
+			tx.ins[index].sequence = htlc.refundSequence(opts.rbf);
+			if (htlc.expiryType === ExpiryType.ABSOLUTE) locktimes.push(htlc.expiry);
+		}
+		if (locktimes.length > 0) {
+			// CLTV fails if the locktime and the expiry are not of the same kind
+			assert(
+				locktimes.every(
+					(locktime) =>
+						locktime >= LOCKTIME_THRESHOLD === locktimes[0] >= LOCKTIME_THRESHOLD
+				),
+				new HTLCExpiryError(
+					HTLCErrorCode.MIXED_LOCKTIME_TYPES,
+					htlcErrors.mixedLocktimeTypes
+				)
+			);
+			tx.locktime = Math.max(...locktimes);
+		}
+
+		addOutputs(
+			tx,
+			{
+				balance: inputs.reduce((acc, { utxo }) => acc + utxo.value, 0),
+				fee: opts.fee,
+				feeRate: opts.feeRate,
+				maxFeeRate: opts.maxFeeRate ?? spends[0].htlc.checks.maxFeeRate,
+				outputs: opts.outputs ?? [
+					{ address: await spends[0].htlc.changeAddress(), change: true },
+				],
+			},
+			network,
+			(outputScripts) =>
+				txVsize(
+					inputs.map(({ htlc, leaf, preimage }) =>
+						htlc.placeholderWitness(leaf, preimage?.length)
+					),
+					outputScripts
+				)
+		);
+
+		const prevouts = inputs.map(({ htlc }) => htlc.getOutputScript());
+		const values = inputs.map(({ utxo }) => utxo.value);
+		const hashType = bitcoin.Transaction.SIGHASH_DEFAULT;
+		for (let i = 0; i < inputs.length; i++) {
+			const { htlc, leaf, preimage } = inputs[i];
+			const hash = tx.hashForWitnessV1(
+				i,
+				prevouts,
+				values,
+				hashType,
+				htlc.leafHash(leaf)
+			);
+			const signature = await htlc.getSigner().signSchnorr(hash);
+			tx.setWitness(
+				i,
+				htlc.witnessFor(leaf, { initiator: signature, redeemer: signature }, preimage)
+			);
+		}
+
+		return tx.toHex();
+	}
+
+	/**
+	 * Checks a signed spend of the HTLC offline, the way a node would before accepting it:
+	 * signatures against the bip341 sighash, leaf commitment of the control block, secret of
+	 * redeems and expiry of refunds (sequence and locktime).
+	 * Online spends are checked before being broadcasted.
+	 *
+	 * @param utxos utxos spent by the transaction
+	 * @returns failed checks of every input, empty if the spend is valid
+	 */
+	validateTx(txHex: string, utxos: BitcoinUTXO[]): SpendDiagnostic[] {
+		return HTLC.validateBatchTx(txHex, [{ htlc: this, utxos }]);
+	}
+
+	/**
+	 * Checks a signed spend of many HTLCs (see `validateTx`), each input being checked
+	 * against the HTLC owning its utxo
+	 * @returns failed checks of every input, empty if the spend is valid
+	 */
+	static validateBatchTx(
+		txHex: string,
+		spends: { htlc: HTLC; utxos: BitcoinUTXO[] }[]
+	): SpendDiagnostic[] {
+		const tx = bitcoin.Transaction.fromHex(txHex);
+		const diagnostics: SpendDiagnostic[] = [];
+		const spent: { htlc: HTLC; utxo: BitcoinUTXO }[] = [];
+		tx.ins.forEach((input, i) => {
+			const txid = Buffer.from(input.hash).reverse().toString("hex");
+			for (const { htlc, utxos } of spends) {
+				const utxo = utxos.find((u) => u.txid === txid && u.vout === input.index);
+				if (utxo) return spent.push({ htlc, utxo });
+			}
+			diagnostics.push({
+				input: i,
+				code: HTLCErrorCode.SPENT_UTXO_NOT_FOUND,
+				message: htlcErrors.spentUtxoNotFound(txid, input.index),
+			});
+		});
+		// sighashes commit to every spent output
+		if (diagnostics.length > 0) return diagnostics;
+
+		const prevouts = spent.map(({ htlc }) => htlc.getOutputScript());
+		const values = spent.map(({ utxo }) => utxo.value);
+		spent.forEach(({ htlc }, i) =>
+			diagnostics.push(...htlc.inputDiagnostics(tx, i, prevouts, values))
+		);
+		return diagnostics;
+	}
+
+	/**
+	 * Throws if the signed spend fails the checks of `validateTx`
+	 */
+	private static assertValidSpend(
+		txHex: string,
+		spends: { htlc: HTLC; utxos: BitcoinUTXO[] }[]
+	) {
+		const diagnostics = HTLC.validateBatchTx(txHex, spends);
+		if (diagnostics.length > 0) throw new HTLCValidationError(diagnostics);
+	}
+
+	/**
+	 * Builds an unsigned PSBT which redeems the HTLC through the redeem leaf.
+	 *
+	 * Note: The secret is not part of the PSBT, pass it to `finalizePsbt` once the PSBT is signed
+	 */
+	async redeemPsbt(fee?: Fee, outputs?: SpendOutput[]): Promise<bitcoin.Psbt> {
+		const opts = { ...(await this.fetchSpendOptions(fee)), outputs };
+		const tx = await this.buildRawTx(Leaf.REDEEM, opts);
+		return this.buildPsbt(tx, opts.utxos, Leaf.REDEEM);
+	}
+
+	/**
+	 * Builds an unsigned PSBT which refunds the HTLC through the refund leaf
+	 * if the expiry block height + 1 is reached
+	 */
+	async refundPsbt(fee?: Fee, outputs?: SpendOutput[]): Promise<bitcoin.Psbt> {
+		const opts = { ...(await this.fetchSpendOptions(fee)), outputs };
+		this.assertRefundable(opts);
+
+		const tx = await this.buildRawTx(Leaf.REFUND, opts);
+		return this.buildPsbt(tx, opts.utxos, Leaf.REFUND);
+	}
+
+	/**
+	 * Builds an unsigned PSBT which refunds the HTLC through the instant refund leaf.
+	 * Both the initiator and the redeemer have to sign it.
+	 */
+	async instantRefundPsbt(fee?: Fee, outputs?: SpendOutput[]): Promise<bitcoin.Psbt> {
+		const opts = { ...(await this.fetchSpendOptions(fee)), outputs };
+		const tx = await this.buildRawTx(Leaf.INSTANT_REFUND, opts);
+		return this.buildPsbt(tx, opts.utxos, Leaf.INSTANT_REFUND);
+	}
+
+	/**
+	 * Finalizes a PSBT built by `redeemPsbt`, `refundPsbt` or `instantRefundPsbt`
+	 * once it carries the required tap script signatures.
+	 *
+	 * @param psbt signed PSBT
+	 * @param secret secret to reveal, required only when spending through the redeem leaf
+	 * @returns raw transaction hex ready to be broadcasted
+	 */
+	finalizePsbt(psbt: bitcoin.Psbt, secret?: string): string {
+		for (let i = 0; i < psbt.inputCount; i++) {
+			const input = psbt.data.inputs[i];
+			const tapLeafScript = input.tapLeafScript?.[0];
+			if (!tapLeafScript) {
+				throw new HTLCSignatureError(
+					HTLCErrorCode.PSBT_LEAF_NOT_FOUND,
+					htlcErrors.psbtLeafNotFound(i),
+					{ input: i }
+				);
+			}
+			const leaf = this.leafFromScript(tapLeafScript.script);
+			if (leaf === undefined)
+				throw new HTLCParamsError(HTLCErrorCode.INVALID_LEAF, htlcErrors.invalidLeaf);
+			const leafHash = this.leafHash(leaf);
+
+			const sigFor = (pubkey: string) =>
+				input.tapScriptSig?.find(
+					(s) => s.pubkey.toString("hex") === pubkey && s.leafHash.equals(leafHash)
+				)?.signature;
+			const sigs = {
+				initiator: sigFor(this.initiatorPubkey),
+				redeemer: sigFor(this.redeemerPubkey),
+			};
+			if (leaf !== Leaf.REFUND && !sigs.redeemer) {
+				throw new HTLCSignatureError(
+					HTLCErrorCode.PSBT_SIG_NOT_FOUND,
+					htlcErrors.psbtSigNotFound(i, this.redeemerPubkey),
+					{ input: i, pubkey: this.redeemerPubkey }
+				);
+			}
+			if (leaf !== Leaf.REDEEM && !sigs.initiator) {
+				throw new HTLCSignatureError(
+					HTLCErrorCode.PSBT_SIG_NOT_FOUND,
+					htlcErrors.psbtSigNotFound(i, this.initiatorPubkey),
+					{ input: i, pubkey: this.initiatorPubkey }
+				);
+			}
+
+			let preimage: Buffer | undefined;
+			if (leaf === Leaf.REDEEM) {
+				assert(
+					!!secret,
+					new HTLCParamsError(
+						HTLCErrorCode.SECRET_REQUIRED,
+						htlcErrors.secretRequired
+					)
+				);
+				preimage = Buffer.from(secret!, "hex");
+				this.assertSecret(preimage);
+			}
+
+			psbt.finalizeTaprootInput(i, leafHash, () => ({
+				finalScriptWitness: witnessStackToScriptWitness(
+					this.witnessFor(leaf, sigs, preimage)
+				),
+			}));
+		}
+
+		return psbt.extractTransaction().toHex();
+	}
+
+	/**
+	 * Builds an unsigned PSBT which spends the HTLC through the key path.
+	 * The initiator and the redeemer sign it together with MuSig2, so it can be used for
+	 * a cooperative redeem (funds to the redeemer) or refund (funds to the initiator)
+	 * without revealing any leaf.
+	 *
+	 * Note: Both parties should build the PSBT with the same fee and outputs,
+	 * then exchange nonces (`musigNonces`) and partial signatures (`musigPartialSign`)
+	 */
+	async cooperativePsbt(fee?: Fee, outputs?: SpendOutput[]): Promise<bitcoin.Psbt> {
+		return this.buildCooperativePsbt({ ...(await this.fetchSpendOptions(fee)), outputs });
+	}
+
+	/**
+	 * Builds an unsigned key path PSBT from the given utxos (see `cooperativePsbt`)
+	 */
+	async buildCooperativePsbt(opts: OfflineSpendOptions): Promise<bitcoin.Psbt> {
+		assert(
+			this.musig,
+			new HTLCParamsError(HTLCErrorCode.MUSIG_DISABLED, musigErrors.musigDisabled)
+		);
+		const tx = await this.buildRawTx(undefined, opts);
+		return this.buildPsbt(tx, opts.utxos);
+	}
+
+	/**
+	 * Generates the MuSig2 nonces of the signer for every input of a key path PSBT.
+	 * The public nonces are shared with the counterparty, the secret nonces
+	 * are kept for `musigPartialSign`.
+	 *
+	 * Note: Secret nonces must be used for a single signing session and then discarded
+	 */
+	async musigNonces(
+		psbt: bitcoin.Psbt
+	): Promise<{ publicNonces: string[]; secretNonces: Buffer[] }> {
+		const signer = await this.musigSigner();
 
-		const network = await signer.getNetwork();
-		return new HTLC(
-			signer,
-			secretHash,
-			xOnlyPubkey(redeemerPubkey).toString("hex"),
-			xOnlyPubkey(initiatorPubkey).toString("hex"),
-			expiry,
-			network
-		);
+		const nonces = [];
+		for (const hash of this.keyPathSighashes(psbt)) {
+			nonces.push(await signer.musigNonce(this.musigPubkeys(), hash));
+		}
+		return {
+			publicNonces: nonces.map(({ publicNonce }) => publicNonce.toString("hex")),
+			secretNonces: nonces.map(({ secretNonce }) => secretNonce),
+		};
 	}
 
 	/**
-	 * Generates a taproot address for receiving the funds
+	 * Partially signs every input of a key path PSBT with the signer
+	 * @param secretNonces secret nonces generated by `musigNonces` for this PSBT
+	 * @param publicNonces public nonces of both participants
+	 * @returns partial signature for each input as hex
 	 */
-	address(): string {
-		const { address } = bitcoin.payments.p2tr({
-			internalPubkey: this.internalPubkey,
-			network: this.network,
-			scriptTree: this.leaves() as Taptree,
-		});
-		if (!address) throw new Error(htlcErrors.htlcAddressGenerationFailed);
-		return address;
+	async musigPartialSign(
+		psbt: bitcoin.Psbt,
+		secretNonces: Buffer[],
+		publicNonces: MusigRound
+	): Promise<string[]> {
+		const signer = await this.musigSigner();
+
+		const hashes = this.keyPathSighashes(psbt);
+		const partialSigs: string[] = [];
+		for (let i = 0; i < hashes.length; i++) {
+			assert(
+				!!secretNonces[i],
+				new HTLCSignatureError(
+					HTLCErrorCode.NONCES_NOT_FOUND,
+					musigErrors.noncesNotFound(i),
+					{ input: i }
+				)
+			);
+			const session = this.musigSessionOf(hashes[i], publicNonces, i);
+			const partialSig = await signer.musigPartialSign(session, secretNonces[i]);
+			partialSigs.push(partialSig.toString("hex"));
+		}
+		return partialSigs;
 	}
 
 	/**
-	 * Builds a raw unsigned transaction with utxos from htlc address
-	 * and uses signer's address as the output address
+	 * Aggregates the partial signatures of both participants into the key path signature
+	 * of every input and finalizes the PSBT
+	 * @param publicNonces public nonces of both participants
+	 * @param partialSigs partial signatures of both participants
+	 * @returns raw transaction hex ready to be broadcasted
 	 */
-	private async buildRawTx(fee?: number) {
-		const tx = new bitcoin.Transaction();
-		tx.version = 2;
+	finalizeCooperativePsbt(
+		psbt: bitcoin.Psbt,
+		publicNonces: MusigRound,
+		partialSigs: MusigRound
+	): string {
+		assert(
+			this.musig,
+			new HTLCParamsError(HTLCErrorCode.MUSIG_DISABLED, musigErrors.musigDisabled)
+		);
 
-		const address = this.address();
-		const provider = await this.signer.getProvider();
-		const utxos = await provider.getUTXOs(address);
-		const balance = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
-		if (balance === 0) throw new Error(`${address} ${htlcErrors.notFunded}`);
+		const hashes = this.keyPathSighashes(psbt);
+		for (let i = 0; i < hashes.length; i++) {
+			const {
+				pubkeys,
+				publicNonces: nonces,
+				tweak,
+			} = this.musigSessionOf(hashes[i], publicNonces, i);
+			const session = signingSession(pubkeys, nonces, tweak, hashes[i]);
 
-		for (let i = 0; i < utxos.length; i++) {
-			tx.addInput(Buffer.from(utxos[i].txid, "hex").reverse(), utxos[i].vout);
+			const sigs: Buffer[] = [];
+			for (const [pubkey, partySigs] of [
+				[this.initiatorPubkey, partialSigs.initiator],
+				[this.redeemerPubkey, partialSigs.redeemer],
+			] as const) {
+				assert(
+					!!partySigs[i],
+					new HTLCSignatureError(
+						HTLCErrorCode.PARTIAL_SIG_NOT_FOUND,
+						musigErrors.partialSigNotFound(i),
+						{ input: i, pubkey }
+					)
+				);
+				const sig = Buffer.from(partySigs[i], "hex");
+				const index = participantIndex(this.musigPubkeys(), Buffer.from(pubkey, "hex"));
+				if (!session.partialSigVerify(sig, nonces, index)) {
+					throw new HTLCSignatureError(
+						HTLCErrorCode.INVALID_PARTIAL_SIG,
+						musigErrors.invalidPartialSig(i, pubkey),
+						{ input: i, pubkey }
+					);
+				}
+				sigs[index] = sig;
+			}
+
+			psbt.updateInput(i, { tapKeySig: Buffer.from(session.partialSigAgg(sigs)) });
+			psbt.finalizeInput(i);
 		}
+		return psbt.extractTransaction().toHex();
+	}
 
-		fee ??= await provider.suggestFee(address, balance, Urgency.MEDIUM);
-		tx.addOutput(
-			bitcoin.address.toOutputScript(await this.signer.getAddress(), this.network),
-			balance - fee
+	/**
+	 * Ensures MuSig2 is enabled and the signer is a participant able to sign MuSig2 sessions
+	 */
+	private async musigSigner(): Promise<
+		Required<Pick<TaprootSigner, "musigNonce" | "musigPartialSign">>
+	> {
+		assert(
+			this.musig,
+			new HTLCParamsError(HTLCErrorCode.MUSIG_DISABLED, musigErrors.musigDisabled)
 		);
-
-		return { tx, usedUtxos: utxos };
+		const signer = this.getSigner();
+		const { musigNonce, musigPartialSign } = signer;
+		if (!musigNonce || !musigPartialSign) {
+			throw new HTLCParamsError(
+				HTLCErrorCode.MUSIG_SIGNER_REQUIRED,
+				musigErrors.musigSignerRequired
+			);
+		}
+		const pubkey = await signer.getXOnlyPubkey();
+		assert(
+			pubkey === this.initiatorPubkey || pubkey === this.redeemerPubkey,
+			new HTLCParamsError(HTLCErrorCode.NOT_A_PARTICIPANT, musigErrors.notAParticipant)
+		);
+		return {
+			musigNonce: musigNonce.bind(signer),
+			musigPartialSign: musigPartialSign.bind(signer),
+		};
 	}
 
 	/**
-	 * prevout script for the htlc address
+	 * x-only pubkeys aggregated into the internal key
 	 */
-	private getOutputScript() {
-		return bitcoin.address.toOutputScript(this.address(), this.network);
+	private musigPubkeys(): Buffer[] {
+		return [this.initiatorPubkey, this.redeemerPubkey].map((pubkey) =>
+			Buffer.from(pubkey, "hex")
+		);
 	}
 
-	async initiate(amount: number, fee?: number): Promise<string> {
-		fee ??= await (
-			await this.signer.getProvider()
-		).suggestFee(await this.signer.getAddress(), amount, Urgency.MEDIUM);
+	/**
+	 * Public nonces of the input ordered the way the participants are sorted in the session
+	 */
+	private orderedNonces(publicNonces: MusigRound, input: number): Buffer[] {
+		const nonces = [
+			{ pubkey: this.initiatorPubkey, nonce: publicNonces.initiator[input] },
+			{ pubkey: this.redeemerPubkey, nonce: publicNonces.redeemer[input] },
+		];
+		assert(
+			nonces.every(({ nonce }) => !!nonce),
+			new HTLCSignatureError(
+				HTLCErrorCode.NONCES_NOT_FOUND,
+				musigErrors.noncesNotFound(input),
+				{ input }
+			)
+		);
 
-		return await this.signer.send(this.address(), amount, fee);
+		const ordered: Buffer[] = [];
+		for (const { pubkey, nonce } of nonces) {
+			ordered[participantIndex(this.musigPubkeys(), Buffer.from(pubkey, "hex"))] =
+				Buffer.from(nonce, "hex");
+		}
+		return ordered;
 	}
 
 	/**
-	 * Instantly refunds the funds to the initiator given the counterparty's signatures and pubkey
-	 *
-	 * Note: If there are multiple UTXOs being spend, there should be a signature for each UTXO in counterPartySigs
+	 * MuSig2 session signing the sighash of the input with the taproot tweaked aggregate key
 	 */
-	async instantRefund(counterPartySigs: { utxo: string; sig: string }[], fee?: number) {
-		assert(counterPartySigs.length > 0, htlcErrors.noCounterpartySigs);
-
-		const { tx, usedUtxos } = await this.buildRawTx(fee);
+	private musigSessionOf(
+		hash: Buffer,
+		publicNonces: MusigRound,
+		input: number
+	): MusigSession {
+		const { hash: merkleRoot } = toHashTree(this.leaves() as Taptree);
+		return {
+			pubkeys: this.musigPubkeys(),
+			publicNonces: this.orderedNonces(publicNonces, input),
+			tweak: taggedHash("TapTweak", Buffer.concat([this.internalPubkey, merkleRoot])),
+			hash,
+		};
+	}
 
-		for (const utxo of usedUtxos) {
-			if (!counterPartySigs.find((sig) => sig.utxo === utxo.txid)) {
-				throw new Error(htlcErrors.counterPartySigNotFound(utxo.txid));
+	/**
+	 * key path sighashes of every input of the PSBT
+	 */
+	private keyPathSighashes(psbt: bitcoin.Psbt): Buffer[] {
+		const tx = bitcoin.Transaction.fromBuffer(psbt.data.getTransaction());
+		const [scripts, values]: [Buffer[], number[]] = [[], []];
+		const diagnostics: SpendDiagnostic[] = [];
+		psbt.data.inputs.forEach(({ witnessUtxo }, input) => {
+			if (witnessUtxo) {
+				scripts.push(witnessUtxo.script);
+				values.push(witnessUtxo.value);
+				return;
 			}
-		}
-
-		const output = this.getOutputScript();
+			diagnostics.push({
+				input,
+				code: HTLCErrorCode.PSBT_WITNESS_UTXO_NOT_FOUND,
+				message: htlcErrors.psbtWitnessUtxoNotFound(input),
+			});
+		});
+		if (diagnostics.length > 0) throw new HTLCValidationError(diagnostics);
 
 		const hashType = bitcoin.Transaction.SIGHASH_DEFAULT;
-		const instantRefundLeafHash = this.leafHash(Leaf.INSTANT_REFUND);
+		return tx.ins.map((_, i) => tx.hashForWitnessV1(i, scripts, values, hashType));
+	}
+
+	/**
+	 * Converts a raw transaction spending the htlc utxos into a PSBT with
+	 * witness utxo, internal key, merkle root, tap leaf script and control block
+	 * for every input (BIP-174 / BIP-371). Key path spends (no leaf) carry no tap leaf script.
+	 */
+	private buildPsbt(
+		tx: bitcoin.Transaction,
+		utxos: BitcoinUTXO[],
+		leaf?: Leaf
+	): bitcoin.Psbt {
+		const psbt = new bitcoin.Psbt({ network: this.network });
+		psbt.setVersion(tx.version);
+		psbt.setLocktime(tx.locktime);
 
-		const values = usedUtxos.map((utxo) => utxo.value);
-		const outputs = generateOutputs(output, usedUtxos.length);
+		const output = this.getOutputScript();
+		const { hash } = toHashTree(this.leaves() as Taptree);
+		const tapLeafScript =
+			leaf === undefined
+				? {}
+				: {
+						tapLeafScript: [
+							{
+								leafVersion: LEAF_VERSION,
+								script: this.leafScript(leaf),
+								controlBlock: this.generateControlBlockFor(leaf),
+							},
+						],
+				  };
 
 		for (let i = 0; i < tx.ins.length; i++) {
-			const hash = tx.hashForWitnessV1(
-				i,
-				outputs,
-				values,
-				hashType,
-				instantRefundLeafHash
-			);
-			if (
-				!ecc.verifySchnorr(
-					hash,
-					Buffer.from(this.redeemerPubkey, "hex"),
-					Buffer.from(counterPartySigs[i].sig, "hex")
-				)
-			) {
-				throw new Error(
-					htlcErrors.invalidCounterpartySigForUTXO(counterPartySigs[i].utxo)
-				);
-			}
+			psbt.addInput({
+				hash: tx.ins[i].hash,
+				index: tx.ins[i].index,
+				sequence: tx.ins[i].sequence,
+				witnessUtxo: { script: output, value: utxos[i].value },
+				tapInternalKey: this.internalPubkey,
+				tapMerkleRoot: hash,
+				...tapLeafScript,
+			});
+		}
+		for (const out of tx.outs) {
+			psbt.addOutput({ script: out.script, value: out.value });
+		}
 
-			const signature = await this.signer.signSchnorr(hash);
-			const txid = Buffer.from(tx.ins[i].hash).reverse().toString("hex");
-			const counterPartySig = counterPartySigs.find((sig) => sig.utxo === txid);
-			if (!counterPartySig) throw new Error(htlcErrors.counterPartySigNotFound(txid));
+		return psbt;
+	}
 
-			tx.setWitness(i, [
-				Buffer.from(counterPartySig.sig, "hex"),
-				signature,
-				this.instantRefundLeaf(),
-				this.generateControlBlockFor(Leaf.INSTANT_REFUND),
-			]);
+	/**
+	 * Witness stack for spending the given leaf, ordered the way the leaf script consumes it
+	 */
+	private witnessFor(
+		leaf: Leaf,
+		sigs: { initiator?: Buffer; redeemer?: Buffer },
+		secret?: Buffer
+	): Buffer[] {
+		const tail = [this.leafScript(leaf), this.generateControlBlockFor(leaf)];
+		switch (leaf) {
+			case Leaf.REDEEM:
+				return [sigs.redeemer!, secret!, ...tail];
+			case Leaf.REFUND:
+				return [sigs.initiator!, ...tail];
+			case Leaf.INSTANT_REFUND:
+				return [sigs.redeemer!, sigs.initiator!, ...tail];
+			default:
+				throw new HTLCParamsError(HTLCErrorCode.INVALID_LEAF, htlcErrors.invalidLeaf);
 		}
-
-		const provider = await this.signer.getProvider();
-		return await provider.broadcast(tx.toHex());
 	}
 
 	/**
-	 * Reveals the secret and redeems the HTLC
+	 * Reads the on-chain state of the HTLC address.
+	 *
+	 * Spends are told apart by matching the leaf script revealed in their witness.
+	 * If the HTLC was redeemed, the secret is extracted from the witness.
 	 */
-	async redeem(secret: string, fee?: number): Promise<string> {
-		assert(
-			sha256(Buffer.from(secret, "hex")).toString("hex") === this.secretHash,
-			htlcErrors.secretMismatch
-		);
+	async status(): Promise<HTLCStatus> {
+		const address = this.address();
+		const backend = this.getBackend();
 
-		const { tx, usedUtxos: utxos } = await this.buildRawTx(fee);
+		const txs = await backend.getTransactions(address);
+		let spend: HTLCStatus | undefined;
+		for (const tx of txs) {
+			for (const input of tx.vin) {
+				if (input.prevout?.scriptpubkey_address !== address || !input.witness) continue;
 
-		// Revealing leaf hash
-		const redeemLeafHash = this.leafHash(Leaf.REDEEM);
+				const witness = input.witness.map((item) => Buffer.from(item, "hex"));
+				if (stripAnnex(witness).length === 1) {
+					spend ??= { state: HTLCState.KEY_PATH_SPENT, txid: tx.txid };
+					continue;
+				}
+				switch (this.leafFromWitness(witness)) {
+					case Leaf.REDEEM: {
+						const secret = this.secretFromWitness(witness);
+						// redeem takes precedence as it reveals the secret
+						if (secret) return { state: HTLCState.REDEEMED, txid: tx.txid, secret };
+						break;
+					}
+					case Leaf.REFUND:
+						spend ??= { state: HTLCState.REFUNDED, txid: tx.txid };
+						break;
+					case Leaf.INSTANT_REFUND:
+						spend ??= { state: HTLCState.INSTANT_REFUNDED, txid: tx.txid };
+						break;
+				}
+			}
+		}
+		if (spend) return spend;
 
-		const values = utxos.map((utxo) => utxo.value);
-		const outputs = generateOutputs(this.getOutputScript(), utxos.length);
+		const utxos = await backend.getUTXOs(address);
+		if (utxos.length === 0) return { state: HTLCState.UNFUNDED };
 
-		// sign the transaction
-		const hashType = bitcoin.Transaction.SIGHASH_DEFAULT;
-		for (let i = 0; i < tx.ins.length; i++) {
-			const hash = tx.hashForWitnessV1(i, outputs, values, hashType, redeemLeafHash);
-			const signature = await this.signer.signSchnorr(hash);
+		const tipHeight = await backend.getLatestTip();
+		const confirmations = Math.min(
+			...utxos.map((utxo) =>
+				utxo.status.confirmed ? tipHeight - utxo.status.block_height + 1 : 0
+			)
+		);
+		return {
+			state: HTLCState.FUNDED,
+			amount: utxos.reduce((acc, utxo) => acc + utxo.value, 0),
+			confirmations,
+		};
+	}
 
-			tx.setWitness(i, [
-				signature,
-				Buffer.from(secret, "hex"),
-				this.redeemLeaf(),
-				this.generateControlBlockFor(Leaf.REDEEM),
-			]);
+	/**
+	 * Extracts the secret from a transaction redeeming the HTLC
+	 * @param txHex raw transaction
+	 * @returns secret as hex or undefined if the transaction does not redeem the HTLC
+	 */
+	extractSecret(txHex: string): string | undefined {
+		const tx = bitcoin.Transaction.fromHex(txHex);
+		for (const input of tx.ins) {
+			if (this.leafFromWitness(input.witness) !== Leaf.REDEEM) continue;
+			const secret = this.secretFromWitness(input.witness);
+			if (secret) return secret;
 		}
-		// broadcast the transaction
-		const provider = await this.signer.getProvider();
-		return await provider.broadcast(tx.toHex());
 	}
 
 	/**
-	 * Refunds the funds back to the initiator if the expiry block height + 1 is reached
+	 * Secret of a redeem leaf witness, laid out as [signature, secret, leaf script, control block]
 	 */
-	async refund(fee?: number): Promise<string> {
-		const { tx, usedUtxos } = await this.buildRawTx(fee);
-
-		const [canRefund, needMoreBlocks] = await this.canRefund(usedUtxos);
-		if (!canRefund) {
-			throw new Error(htlcErrors.htlcNotExpired(needMoreBlocks));
+	private secretFromWitness(witness: Buffer[]): string | undefined {
+		const secret = stripAnnex(witness)[1];
+		if (secret && sha256(secret).toString("hex") === this.secretHash) {
+			return secret.toString("hex");
 		}
+	}
 
-		const refundLeafHash = this.leafHash(Leaf.REFUND);
+	/**
+	 * Throws if the utxos fund less than the expected amount or are not confirmed enough
+	 */
+	private assertFunding(utxos: BitcoinUTXO[], { tipHeight, ...checks }: OfflineSpendOptions) {
+		const expectedAmount = checks.expectedAmount ?? this.checks.expectedAmount;
+		const minConfirmations = checks.minConfirmations ?? this.checks.minConfirmations;
 
-		const values = usedUtxos.map((utxo) => utxo.value);
-		const outputs = generateOutputs(this.getOutputScript(), usedUtxos.length);
+		const balance = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+		if (expectedAmount !== undefined && balance < expectedAmount) {
+			throw new HTLCFundingError(
+				HTLCErrorCode.FUNDING_BELOW_EXPECTED,
+				htlcErrors.fundingBelowExpected(balance, expectedAmount),
+				{ address: this.address(), balance }
+			);
+		}
+		if (!minConfirmations) return;
+		for (const utxo of utxos) {
+			const confirmations = utxo.status.confirmed
+				? tipHeight - utxo.status.block_height + 1
+				: 0;
+			if (confirmations < minConfirmations) {
+				throw new HTLCFundingError(
+					HTLCErrorCode.INSUFFICIENT_CONFIRMATIONS,
+					htlcErrors.insufficientConfirmations(
+						utxo.txid,
+						confirmations,
+						minConfirmations
+					),
+					{ address: this.address(), txid: utxo.txid, confirmations }
+				);
+			}
+		}
+	}
 
-		const hashType = bitcoin.Transaction.SIGHASH_DEFAULT;
+	/**
+	 * Throws if the secret does not unlock the redeem leaf
+	 */
+	private assertSecret(secret: Buffer) {
+		assert(
+			sha256(secret).toString("hex") === this.secretHash,
+			new HTLCParamsError(HTLCErrorCode.SECRET_MISMATCH, htlcErrors.secretMismatch)
+		);
+		assert(
+			!this.miniscript || secret.length === 32,
+			new HTLCParamsError(HTLCErrorCode.SECRET_LEN_MISMATCH, htlcErrors.secretLenMismatch)
+		);
+	}
 
-		for (let i = 0; i < tx.ins.length; i++) {
-			tx.ins[i].sequence = this.expiry;
-			const hash = tx.hashForWitnessV1(i, outputs, values, hashType, refundLeafHash);
-			const signature = await this.signer.signSchnorr(hash);
+	/**
+	 * Throws if the utxos can not be refunded yet
+	 */
+	private assertRefundable(opts: OfflineSpendOptions) {
+		const lock = this.remainingLock(opts);
+		if (lock && "seconds" in lock) {
+			throw new HTLCExpiryError(
+				HTLCErrorCode.NOT_EXPIRED,
+				htlcErrors.htlcNotExpiredForSeconds(lock.seconds),
+				lock
+			);
+		}
+		if (lock) {
+			throw new HTLCExpiryError(
+				HTLCErrorCode.NOT_EXPIRED,
+				htlcErrors.htlcNotExpired(lock.blocks),
+				lock
+			);
+		}
+	}
 
-			tx.setWitness(i, [
-				signature,
-				this.redundLeaf(),
-				this.generateControlBlockFor(Leaf.REFUND),
-			]);
+	/**
+	 * Blocks (or seconds for time based expiries) left until all the utxos can be refunded
+	 * @returns undefined if they can already be refunded
+	 */
+	private remainingLock({
+		utxos,
+		tipHeight,
+		medianTimePast,
+		confirmationTimes,
+	}: OfflineSpendOptions): { blocks: number } | { seconds: number } | undefined {
+		if (this.isTimeLocked()) {
+			assert(
+				medianTimePast !== undefined,
+				new HTLCExpiryError(
+					HTLCErrorCode.MEDIAN_TIME_PAST_REQUIRED,
+					htlcErrors.medianTimePastRequired
+				)
+			);
+			const needMoreSeconds =
+				this.expiryType === ExpiryType.ABSOLUTE
+					? // the locktime has to be strictly lower than the median time past (bip113)
+					  Math.max(this.expiry - medianTimePast! + 1, 0)
+					: this.secondsUntilRefundable(utxos, medianTimePast!, confirmationTimes);
+			return needMoreSeconds > 0 ? { seconds: needMoreSeconds } : undefined;
 		}
 
-		const provider = await this.signer.getProvider();
-		return await provider.broadcast(tx.toHex());
+		const [canRefund, needMoreBlocks] = this.canRefund(utxos, tipHeight);
+		return canRefund ? undefined : { blocks: needMoreBlocks };
 	}
 
 	/**
-	 * Given a list of UTXOs, checks if the HTLC can be refunded
+	 * Given a list of UTXOs and the current block height, checks if the HTLC can be refunded
 	 */
-	private async canRefund(utxos: BitcoinUTXO[]): Promise<[boolean, number]> {
-		const provider = await this.signer.getProvider();
-		const currentBlockHeight = await provider.getLatestTip();
+	private canRefund(utxos: BitcoinUTXO[], currentBlockHeight: number): [boolean, number] {
+		if (this.expiryType === ExpiryType.ABSOLUTE) {
+			// a transaction with locktime L can be mined in the block L + 1
+			return currentBlockHeight >= this.expiry
+				? [true, 0]
+				: [false, this.expiry - currentBlockHeight];
+		}
 
 		// ensure all utxos are expired
 		for (const utxo of utxos) {
@@ -329,6 +2581,247 @@ export class HTLC implements IHTLC {
 		return [true, 0];
 	}
 
+	/**
+	 * Given a list of UTXOs, returns the number of seconds until all of them
+	 * are past the relative time expiry (bip68), 0 if they already are
+	 */
+	private secondsUntilRefundable(
+		utxos: BitcoinUTXO[],
+		medianTimePast: number,
+		confirmationTimes: Record<string, number> = {}
+	): number {
+		const lockDuration = this.expiry * SEQUENCE_TIME_UNIT_SECONDS;
+
+		let needMoreSeconds = 0;
+		for (const utxo of utxos) {
+			if (!utxo.status.confirmed) return lockDuration;
+
+			const confirmedAt = confirmationTimes[utxo.txid];
+			assert(
+				confirmedAt !== undefined,
+				new HTLCExpiryError(
+					HTLCErrorCode.CONFIRMATION_TIME_REQUIRED,
+					htlcErrors.confirmationTimeRequired(utxo.txid),
+					{ txid: utxo.txid }
+				)
+			);
+			needMoreSeconds = Math.max(
+				needMoreSeconds,
+				confirmedAt + lockDuration - medianTimePast
+			);
+		}
+		return needMoreSeconds;
+	}
+
+	/**
+	 * Whether the expiry is compared against the median time past instead of the block height
+	 */
+	private isTimeLocked(): boolean {
+		return (
+			this.expiryType === ExpiryType.RELATIVE_TIME ||
+			(this.expiryType === ExpiryType.ABSOLUTE && this.expiry >= LOCKTIME_THRESHOLD)
+		);
+	}
+
+	/**
+	 * Sequence of the inputs spending the refund leaf, enabling the locktime for absolute expiries
+	 */
+	private refundSequence(rbf = false): number {
+		if (this.expiryType !== ExpiryType.ABSOLUTE) return this.relativeLocktime();
+		return rbf ? SEQUENCE_RBF : SEQUENCE_ENABLE_LOCKTIME;
+	}
+
+	/**
+	 * Throws if an input of the refund does not satisfy the expiry of the refund leaf
+	 */
+	private assertRefundLocks(tx: bitcoin.Transaction) {
+		tx.ins.forEach((_, i) => {
+			const diagnostic = this.refundLockDiagnostic(tx, i);
+			if (diagnostic) throw new HTLCExpiryError(diagnostic.code, diagnostic.message);
+		});
+	}
+
+	/**
+	 * Checks the sequence and locktime of a refund input against the expiry of the refund leaf
+	 * (bip68 for relative expiries, bip65 for absolute ones)
+	 */
+	private refundLockDiagnostic(
+		tx: bitcoin.Transaction,
+		input: number
+	): SpendDiagnostic | undefined {
+		const { sequence } = tx.ins[input];
+		const required = this.relativeLocktime();
+		const validSequence =
+			this.expiryType === ExpiryType.ABSOLUTE
+				? sequence !== SEQUENCE_FINAL
+				: tx.version >= 2 &&
+				  !(sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) &&
+				  (sequence & SEQUENCE_LOCKTIME_TYPE_FLAG) ===
+						(required & SEQUENCE_LOCKTIME_TYPE_FLAG) &&
+				  (sequence & SEQUENCE_LOCKTIME_MASK) >= this.expiry;
+		if (!validSequence) {
+			return {
+				input,
+				code: HTLCErrorCode.INVALID_REFUND_SEQUENCE,
+				message: htlcErrors.invalidRefundSequence(input),
+			};
+		}
+		if (
+			this.expiryType === ExpiryType.ABSOLUTE &&
+			(tx.locktime < LOCKTIME_THRESHOLD !== this.expiry < LOCKTIME_THRESHOLD ||
+				tx.locktime < this.expiry)
+		) {
+			return {
+				input,
+				code: HTLCErrorCode.INVALID_REFUND_LOCKTIME,
+				message: htlcErrors.invalidRefundLocktime(input),
+			};
+		}
+	}
+
+	/**
+	 * Checks the witness of an input spending the HTLC, through the key path or one of its leaves
+	 * @param prevouts output scripts spent by every input of the transaction
+	 * @param values values spent by every input of the transaction
+	 */
+	private inputDiagnostics(
+		tx: bitcoin.Transaction,
+		input: number,
+		prevouts: Buffer[],
+		values: number[]
+	): SpendDiagnostic[] {
+		const failed = (code: HTLCErrorCode, message: string) => [{ input, code, message }];
+		const outputKey = this.getOutputScript().subarray(2);
+		const { witness } = tx.ins[input];
+		const stack = stripAnnex(witness);
+		const annex = stack.length < witness.length ? witness[witness.length - 1] : undefined;
+		const sighash = (leafHash?: Buffer) => (hashType: number) =>
+			tx.hashForWitnessV1(input, prevouts, values, hashType, leafHash, annex);
+
+		if (stack.length === 0) {
+			return failed(
+				HTLCErrorCode.WITNESS_SIZE_MISMATCH,
+				htlcErrors.witnessSizeMismatch(input, 0, 1)
+			);
+		}
+		// key path (cooperative spend)
+		if (stack.length === 1) {
+			const diagnostic = sigDiagnostic(input, stack[0], outputKey, sighash());
+			return diagnostic ? [diagnostic] : [];
+		}
+
+		const [controlBlock, leafScript] = stack.slice(-2).reverse();
+		if (controlBlock.length < 33 || (controlBlock.length - 33) % 32 !== 0) {
+			return failed(
+				HTLCErrorCode.INVALID_CONTROL_BLOCK,
+				htlcErrors.invalidControlBlockSize(input, controlBlock.length)
+			);
+		}
+		if (!controlBlock.subarray(1, 33).equals(this.internalPubkey)) {
+			return failed(
+				HTLCErrorCode.INVALID_CONTROL_BLOCK,
+				htlcErrors.internalKeyMismatch(input)
+			);
+		}
+		const leaf = this.leafFromScript(leafScript);
+		if (leaf === undefined) {
+			return failed(HTLCErrorCode.UNKNOWN_LEAF, htlcErrors.unknownLeaf(input));
+		}
+		if (
+			(controlBlock[0] & 0xfe) !== LEAF_VERSION ||
+			!verifyLeafInclusion(outputKey, controlBlock, leafScript)
+		) {
+			return failed(HTLCErrorCode.LEAF_NOT_COMMITTED, htlcErrors.leafNotCommitted(input));
+		}
+
+		const args = stack.slice(0, -2);
+		const expected = this.placeholderWitness(leaf).length - 2;
+		if (args.length !== expected) {
+			return failed(
+				HTLCErrorCode.WITNESS_SIZE_MISMATCH,
+				htlcErrors.witnessSizeMismatch(input, args.length, expected)
+			);
+		}
+
+		const leafSighash = sighash(this.leafHash(leaf));
+		const redeemer = Buffer.from(this.redeemerPubkey, "hex");
+		const initiator = Buffer.from(this.initiatorPubkey, "hex");
+		const diagnostics: (SpendDiagnostic | undefined)[] = [];
+		switch (leaf) {
+			case Leaf.REDEEM: {
+				const [sig, secret] = args;
+				diagnostics.push(sigDiagnostic(input, sig, redeemer, leafSighash));
+				if (sha256(secret).toString("hex") !== this.secretHash) {
+					diagnostics.push({
+						input,
+						code: HTLCErrorCode.SECRET_MISMATCH,
+						message: htlcErrors.secretHashMismatch(input),
+					});
+				} else if (this.miniscript && secret.length !== 32) {
+					diagnostics.push({
+						input,
+						code: HTLCErrorCode.SECRET_LEN_MISMATCH,
+						message: htlcErrors.secretSizeMismatch(input, secret.length),
+					});
+				}
+				break;
+			}
+			case Leaf.REFUND:
+				diagnostics.push(sigDiagnostic(input, args[0], initiator, leafSighash));
+				diagnostics.push(this.refundLockDiagnostic(tx, input));
+				break;
+			case Leaf.INSTANT_REFUND:
+				diagnostics.push(sigDiagnostic(input, args[0], redeemer, leafSighash));
+				diagnostics.push(sigDiagnostic(input, args[1], initiator, leafSighash));
+				break;
+		}
+		return diagnostics.filter((d): d is SpendDiagnostic => d !== undefined);
+	}
+
+	/**
+	 * Relative locktime of the refund leaf as encoded in the input sequence (bip68)
+	 */
+	private relativeLocktime(): number {
+		return this.expiryType === ExpiryType.RELATIVE_TIME
+			? SEQUENCE_LOCKTIME_TYPE_FLAG | this.expiry
+			: this.expiry;
+	}
+
+	/**
+	 * Signer of the HTLC, throws for instances created without one
+	 */
+	private getSigner(): TaprootSigner {
+		if (!this.signer)
+			throw new HTLCParamsError(HTLCErrorCode.SIGNER_REQUIRED, htlcErrors.signerRequired);
+		return this.signer;
+	}
+
+	/**
+	 * Chain backend of the HTLC, throws for instances created without one
+	 */
+	private getBackend(): BitcoinChainBackend {
+		if (!this.backend)
+			throw new HTLCParamsError(
+				HTLCErrorCode.BACKEND_REQUIRED,
+				htlcErrors.backendRequired
+			);
+		return this.backend;
+	}
+
+	/**
+	 * Address of the signer receiving the funds of spends without explicit outputs
+	 */
+	private async changeAddress(): Promise<string> {
+		const signer = this.getSigner();
+		if (!signer.getAddress) {
+			throw new HTLCParamsError(
+				HTLCErrorCode.OUTPUTS_REQUIRED,
+				htlcErrors.outputsRequired
+			);
+		}
+		return await signer.getAddress();
+	}
+
 	/**
 	 * Given a leaf, generates the control block necessary for spending the leaf
 	 */
@@ -348,18 +2841,44 @@ export class HTLC implements IHTLC {
 	 * @returns hash of the leaf script
 	 */
 	leafHash(leaf: Leaf): Buffer {
-		let leafScript = this.redeemLeaf();
-		if (leaf === Leaf.REFUND) leafScript = this.redundLeaf();
-		if (leaf === Leaf.INSTANT_REFUND) leafScript = this.instantRefundLeaf();
-		return taggedHash("TapLeaf", serializeScript(leafScript));
+		return taggedHash("TapLeaf", serializeScript(this.leafScript(leaf)));
+	}
+
+	private leafScript(leaf: Leaf): Buffer {
+		if (leaf === Leaf.REFUND) return this.redundLeaf();
+		if (leaf === Leaf.INSTANT_REFUND) return this.instantRefundLeaf();
+		return this.redeemLeaf();
+	}
+
+	/**
+	 * Finds the leaf whose script matches the given one
+	 */
+	private leafFromScript(script: Buffer): Leaf | undefined {
+		for (const leaf of [Leaf.REDEEM, Leaf.REFUND, Leaf.INSTANT_REFUND]) {
+			if (this.leafScript(leaf).equals(script)) return leaf;
+		}
+	}
+
+	/**
+	 * Finds the leaf spent by a script path witness, the leaf script being
+	 * the second last element (ignoring the annex if present)
+	 */
+	private leafFromWitness(witness: Buffer[]): Leaf | undefined {
+		witness = stripAnnex(witness);
+		if (witness.length < 2) return;
+		return this.leafFromScript(witness[witness.length - 2]);
 	}
 
 	private redundLeaf(): Buffer {
+		const [locktime, opcode] =
+			this.expiryType === ExpiryType.ABSOLUTE
+				? [this.expiry, "OP_CHECKLOCKTIMEVERIFY"]
+				: [this.relativeLocktime(), "OP_CHECKSEQUENCEVERIFY"];
 		return bitcoin.script.fromASM(
 			`
-			${bitcoin.script.number.encode(this.expiry).toString("hex")}
-			OP_CHECKSEQUENCEVERIFY
-			OP_DROP
+			${bitcoin.script.number.encode(locktime).toString("hex")}
+			${opcode}
+			${this.miniscript ? "OP_VERIFY" : "OP_DROP"}
 			${this.initiatorPubkey}	
 			OP_CHECKSIG
 			`
@@ -369,8 +2888,11 @@ export class HTLC implements IHTLC {
 	}
 
 	private redeemLeaf(): Buffer {
+		// miniscript ensures the secret is 32 bytes
+		const sizeCheck = this.miniscript ? "OP_SIZE 20 OP_EQUALVERIFY" : "";
 		return bitcoin.script.fromASM(
 			`
+			${sizeCheck}
 			OP_SHA256
 			${this.secretHash}
 			OP_EQUALVERIFY
@@ -433,11 +2955,96 @@ export class HTLC implements IHTLC {
 			case Leaf.INSTANT_REFUND:
 				return [refundLeafHash, redeemLeafHash];
 			default:
-				throw new Error(htlcErrors.invalidLeaf);
+				throw new HTLCParamsError(HTLCErrorCode.INVALID_LEAF, htlcErrors.invalidLeaf);
 		}
 	}
 }
 
+/**
+ * Schnorr signature with SIGHASH_DEFAULT, used to size witnesses before signing
+ */
+const SCHNORR_SIG_PLACEHOLDER = Buffer.alloc(64);
+
+/**
+ * Removes the annex (BIP-341) from a witness, if present
+ */
+function stripAnnex(witness: Buffer[]): Buffer[] {
+	const last = witness[witness.length - 1];
+	return witness.length >= 2 && last[0] === ANNEX_TAG ? witness.slice(0, -1) : witness;
+}
+
+/**
+ * Checks a bip340 signature, with an optional sighash type byte, against the sighash
+ */
+function sigDiagnostic(
+	input: number,
+	sig: Buffer,
+	pubkey: Buffer,
+	sighash: (hashType: number) => Buffer
+): SpendDiagnostic | undefined {
+	const failed = (message: string) => ({
+		input,
+		code: HTLCErrorCode.INVALID_SIG,
+		message,
+	});
+	if (sig.length !== 64 && sig.length !== 65) {
+		return failed(htlcErrors.invalidSigSize(input, sig.length));
+	}
+	const hashType = sig.length === 65 ? sig[64] : bitcoin.Transaction.SIGHASH_DEFAULT;
+	const valid =
+		!(sig.length === 65 && hashType === bitcoin.Transaction.SIGHASH_DEFAULT) &&
+		ecc.verifySchnorr(sighash(hashType), pubkey, sig.subarray(0, 64));
+	if (!valid) return failed(htlcErrors.invalidSig(input, pubkey.toString("hex")));
+}
+
+/**
+ * Fetches the median time past of the tip and of the blocks preceding the confirmation of each utxo,
+ * which time based expiries are checked against. Nothing is fetched if the backend has no median time past.
+ */
+async function fetchMedianTimes(
+	backend: BitcoinChainBackend,
+	utxos: BitcoinUTXO[]
+): Promise<Pick<OfflineSpendOptions, "medianTimePast" | "confirmationTimes">> {
+	if (!backend.getMedianTimePast) return {};
+	const confirmationTimes: Record<string, number> = {};
+	for (const utxo of utxos) {
+		// bip68 measures from the median time past of the block preceding the confirmation
+		if (!utxo.status.confirmed) continue;
+		confirmationTimes[utxo.txid] = await backend.getMedianTimePast(
+			utxo.status.block_height - 1
+		);
+	}
+	return { medianTimePast: await backend.getMedianTimePast(), confirmationTimes };
+}
+
+/**
+ * Key path witness of a p2wpkh or p2tr output with placeholder signature and pubkey,
+ * undefined for other outputs
+ */
+function placeholderKeyWitness(outputScript: Buffer): Buffer[] | undefined {
+	if (outputScript.length === 22 && outputScript[0] === 0x00 && outputScript[1] === 20) {
+		// DER signature with sighash type and compressed pubkey
+		return [Buffer.alloc(72), Buffer.alloc(33)];
+	}
+	if (outputScript.length === 34 && outputScript[0] === 0x51 && outputScript[1] === 32) {
+		return [SCHNORR_SIG_PLACEHOLDER];
+	}
+}
+
+/**
+ * OP_RETURN output script committing to the hex encoded swap id
+ */
+function opReturnScript(swapId: string): Buffer {
+	const data = Buffer.from(swapId, "hex");
+	assert(
+		data.length > 0 &&
+			data.length <= MAX_OP_RETURN_DATA &&
+			data.toString("hex") === swapId.toLowerCase(),
+		new HTLCParamsError(HTLCErrorCode.INVALID_SWAP_ID, htlcErrors.invalidSwapId)
+	);
+	return bitcoin.script.compile([bitcoin.opcodes.OP_RETURN, data]);
+}
+
 /**
  * We only have one output script aka scriptpubkey, hence we generate the same output for signing
  */
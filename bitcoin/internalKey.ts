@@ -1,6 +1,7 @@
 import { sha256, taggedHash } from "bitcoinjs-lib/src/crypto";
 import { toXOnly } from "bitcoinjs-lib/src/psbt/bip371";
 import * as ecc from "tiny-secp256k1";
+import { HTLCErrorCode, HTLCKeyError } from "./errors";
 
 // All these values are taken from bip341
 
@@ -23,33 +24,95 @@ const H = Buffer.from(
 const errors = {
 	failedToCreateInternalPubkey: "failed to create internal pubkey",
 	failedToTweakPubkey: "failed to tweak pubkey",
+	invalidBlinding: "blinding should be a valid 32 bytes scalar",
 };
 
 /**
- * Generates NUMS internal key
+ * Blinding scalar of the NUMS internal key shared by HTLCs without a blinding of their own
+ */
+export const DEFAULT_BLINDING = sha256(Buffer.from("HTLC", "utf-8"));
+
+/**
+ * Generates NUMS internal key H + r·G
  *
  * Uses Standard ECDSA secp256k1 curve's G point
+ * @param blinding 32 bytes scalar r, defaults to sha256("HTLC")
  */
-export function generateInternalkey() {
-	const hash = sha256(Buffer.from("HTLC", "utf-8"));
-	const R = ecc.pointMultiply(Buffer.concat([Buffer.from("04", "hex"), G]), hash);
+export function generateInternalkey(blinding = DEFAULT_BLINDING) {
+	if (!ecc.isPrivate(blinding)) {
+		throw new HTLCKeyError(HTLCErrorCode.INVALID_BLINDING, errors.invalidBlinding);
+	}
+	const R = ecc.pointMultiply(Buffer.concat([Buffer.from("04", "hex"), G]), blinding);
 
 	if (!R) {
-		throw new Error(errors.failedToCreateInternalPubkey);
+		throw new HTLCKeyError(
+			HTLCErrorCode.INTERNAL_KEY_GENERATION_FAILED,
+			errors.failedToCreateInternalPubkey
+		);
 	}
 
 	const internalPubKey = ecc.pointAdd(H, R);
-	if (!internalPubKey) throw new Error(errors.failedToCreateInternalPubkey);
+	if (!internalPubKey) {
+		throw new HTLCKeyError(
+			HTLCErrorCode.INTERNAL_KEY_GENERATION_FAILED,
+			errors.failedToCreateInternalPubkey
+		);
+	}
 
 	return toXOnly(Buffer.from(internalPubKey));
 }
 
+/**
+ * Derives a per HTLC blinding scalar from the swap parameters, so that HTLCs do not share
+ * the same internal key while counterparties can still recompute it.
+ *
+ * Note: Anyone seeing the leaves revealed by a spend can recompute the blinding and link the
+ * internal key to the HTLC. For privacy, mix in randomness agreed with the counterparty
+ * through `salt` (or pass a random blinding to the HTLC instead)
+ * @param expiryType type of the expiry (see `ExpiryType`), so that HTLCs only differing by it do not share a key
+ * @param salt optional randomness known only to both parties
+ */
+export function deriveBlinding(
+	secretHash: string,
+	initiatorPubkey: string,
+	redeemerPubkey: string,
+	expiry: number,
+	expiryType: string,
+	salt: Buffer = Buffer.alloc(0)
+): Buffer {
+	const expiryBuffer = Buffer.alloc(4);
+	expiryBuffer.writeUInt32LE(expiry);
+	return sha256(
+		Buffer.concat([
+			Buffer.from("HTLC", "utf-8"),
+			Buffer.from(secretHash, "hex"),
+			Buffer.from(initiatorPubkey, "hex"),
+			Buffer.from(redeemerPubkey, "hex"),
+			expiryBuffer,
+			Buffer.from(expiryType, "utf-8"),
+			salt,
+		])
+	);
+}
+
+/**
+ * Checks that the x-only internal key is H + r·G for the blinding r,
+ * i.e that nobody knows its discrete logarithm and the key path is unspendable
+ */
+export function isUnspendableInternalKey(internalKey: Buffer, blinding: Buffer): boolean {
+	try {
+		return generateInternalkey(blinding).equals(internalKey);
+	} catch {
+		return false;
+	}
+}
+
 export function tweakPubkey(pubkey: Buffer, hash: Buffer) {
 	const tweak = taggedHash("TapTweak", Buffer.concat([pubkey, hash]));
 	const tweakedPubKey = ecc.xOnlyPointAddTweak(pubkey, tweak);
 
 	if (!tweakedPubKey) {
-		throw new Error(errors.failedToTweakPubkey);
+		throw new HTLCKeyError(HTLCErrorCode.PUBKEY_TWEAK_FAILED, errors.failedToTweakPubkey);
 	}
 
 	return tweakedPubKey;
@@ -0,0 +1,352 @@
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "tiny-secp256k1";
+import { taggedHash } from "bitcoinjs-lib/src/crypto";
+import {
+	ANNEX_TAG,
+	LEAF_VERSION,
+	LOCKTIME_THRESHOLD,
+	SEQUENCE_FINAL,
+	SEQUENCE_LOCKTIME_DISABLE_FLAG,
+	SEQUENCE_LOCKTIME_MASK,
+	SEQUENCE_LOCKTIME_TYPE_FLAG,
+} from "./constants";
+import { prefixScriptLength, verifyLeafInclusion } from "./utils";
+
+// Witness verification of the outputs involved in HTLC swaps: p2wpkh wallets, p2wsh scripts,
+// taproot key path spends and tapscript (bip342) leaves built from the opcodes used by the HTLC scripts.
+// Failures are reported with the reasons bitcoind gives.
+
+const { opcodes } = bitcoin;
+
+/**
+ * Output spent by an input
+ */
+export type Prevout = { script: Buffer; value: number };
+
+/**
+ * Verifies the witness of the input against the output it spends, throws if it is invalid
+ * @param prevouts outputs spent by every input of the transaction, in order
+ */
+export function verifyInput(tx: bitcoin.Transaction, index: number, prevouts: Prevout[]) {
+	const { script, value } = prevouts[index];
+	const witness = tx.ins[index].witness;
+
+	if (script.length === 22 && script[0] === opcodes.OP_0 && script[1] === 20) {
+		return verifyP2wpkh(tx, index, script, value, witness);
+	}
+	if (script.length === 34 && script[0] === opcodes.OP_0 && script[1] === 32) {
+		return verifyP2wsh(tx, index, script, value, witness);
+	}
+	if (script.length === 34 && script[0] === opcodes.OP_1 && script[1] === 32) {
+		return verifyTaproot(tx, index, prevouts, witness);
+	}
+	throw scriptError("unsupported output script");
+}
+
+function verifyP2wpkh(
+	tx: bitcoin.Transaction,
+	index: number,
+	script: Buffer,
+	value: number,
+	witness: Buffer[]
+) {
+	if (witness.length !== 2) throw scriptError("Witness program mismatch");
+	const [sig, pubkey] = witness;
+	const pubkeyHash = script.subarray(2);
+	if (!bitcoin.crypto.hash160(pubkey).equals(pubkeyHash)) {
+		throw scriptError("Witness program hash mismatch");
+	}
+
+	let decoded: { signature: Buffer; hashType: number };
+	try {
+		decoded = bitcoin.script.signature.decode(sig);
+	} catch {
+		throw scriptError("Non-canonical DER signature");
+	}
+	const scriptCode = bitcoin.payments.p2pkh({ hash: pubkeyHash }).output!;
+	const hash = tx.hashForWitnessV0(index, scriptCode, value, decoded.hashType);
+	if (!ecc.verify(hash, pubkey, decoded.signature)) {
+		throw scriptError("Signature must be zero for failed CHECK(MULTI)SIG operation");
+	}
+}
+
+function verifyP2wsh(
+	tx: bitcoin.Transaction,
+	index: number,
+	script: Buffer,
+	value: number,
+	witness: Buffer[]
+) {
+	if (witness.length === 0) throw scriptError("Witness program was passed an empty witness");
+	const stack = witness.slice(0, -1);
+	const witnessScript = witness[witness.length - 1];
+	if (!bitcoin.crypto.sha256(witnessScript).equals(script.subarray(2))) {
+		throw scriptError("Witness program hash mismatch");
+	}
+
+	// failed signatures have to be empty (NULLFAIL)
+	const checksig = (sig: Buffer, pubkey: Buffer): boolean => {
+		if (pubkey.length !== 33 || (pubkey[0] !== 0x02 && pubkey[0] !== 0x03)) {
+			throw scriptError("Using non-compressed keys in segwit");
+		}
+		if (sig.length === 0) return false;
+		let decoded: { signature: Buffer; hashType: number };
+		try {
+			decoded = bitcoin.script.signature.decode(sig);
+		} catch {
+			throw scriptError("Non-canonical DER signature");
+		}
+		const hash = tx.hashForWitnessV0(index, witnessScript, value, decoded.hashType);
+		if (!ecc.verify(hash, pubkey, decoded.signature)) {
+			throw scriptError("Signature must be zero for failed CHECK(MULTI)SIG operation");
+		}
+		return true;
+	};
+	executeScript(tx, index, witnessScript, stack, checksig);
+}
+
+function verifyTaproot(
+	tx: bitcoin.Transaction,
+	index: number,
+	prevouts: Prevout[],
+	witness: Buffer[]
+) {
+	const outputKey = prevouts[index].script.subarray(2);
+	const stack = [...witness];
+	const annex =
+		stack.length >= 2 && stack[stack.length - 1][0] === ANNEX_TAG ? stack.pop() : undefined;
+	if (stack.length === 0) throw scriptError("Witness program was passed an empty witness");
+
+	const sighash = (hashType: number, leafHash?: Buffer) =>
+		tx.hashForWitnessV1(
+			index,
+			prevouts.map(({ script }) => script),
+			prevouts.map(({ value }) => value),
+			hashType,
+			leafHash,
+			annex
+		);
+
+	// key path
+	if (stack.length === 1) return checkSchnorr(stack[0], outputKey, (type) => sighash(type));
+
+	const controlBlock = stack.pop()!;
+	const leafScript = stack.pop()!;
+	if (controlBlock.length < 33 || (controlBlock.length - 33) % 32 !== 0) {
+		throw scriptError("Invalid Taproot control block size");
+	}
+	if (!verifyLeafInclusion(outputKey, controlBlock, leafScript)) {
+		throw scriptError("Witness program hash mismatch");
+	}
+	const leafVersion = controlBlock[0] & 0xfe;
+	// unknown leaf versions are left for future soft forks
+	if (leafVersion !== LEAF_VERSION) return;
+
+	const leafHash = taggedHash(
+		"TapLeaf",
+		Buffer.concat([Uint8Array.from([leafVersion]), prefixScriptLength(leafScript)])
+	);
+	// empty signatures fail without aborting the script (bip342)
+	const checksig = (sig: Buffer, pubkey: Buffer): boolean => {
+		if (pubkey.length === 0) {
+			throw scriptError("Public key is neither compressed or uncompressed");
+		}
+		if (sig.length === 0) return false;
+		// unknown pubkey types are left for future soft forks
+		if (pubkey.length === 32) checkSchnorr(sig, pubkey, (type) => sighash(type, leafHash));
+		return true;
+	};
+	executeScript(tx, index, leafScript, stack, checksig);
+}
+
+/**
+ * Runs a witness script or a leaf script on the witness stack, supporting the opcodes
+ * of the HTLC scripts
+ * @param checksig verifies a signature the way the script version does, false if it is empty
+ */
+function executeScript(
+	tx: bitcoin.Transaction,
+	index: number,
+	script: Buffer,
+	stack: Buffer[],
+	checksig: (sig: Buffer, pubkey: Buffer) => boolean
+) {
+	const chunks = bitcoin.script.decompile(script);
+	if (!chunks) throw scriptError("Opcode missing or not understood");
+
+	const pop = () => {
+		const top = stack.pop();
+		if (!top) throw scriptError("Operation not valid with the current stack size");
+		return top;
+	};
+	const top = () => {
+		if (stack.length === 0) {
+			throw scriptError("Operation not valid with the current stack size");
+		}
+		return stack[stack.length - 1];
+	};
+	const verify = (condition: boolean, reason: string) => {
+		if (!condition) throw scriptError(reason);
+	};
+	// branches being executed, the opcodes of a branch not taken are skipped
+	const conditions: boolean[] = [];
+
+	for (const chunk of chunks) {
+		if (chunk === opcodes.OP_IF || chunk === opcodes.OP_NOTIF) {
+			let condition = false;
+			if (conditions.every(Boolean)) {
+				const value = pop();
+				verify(
+					value.length === 0 || (value.length === 1 && value[0] === 1),
+					"OP_IF/NOTIF argument must be minimal"
+				);
+				condition = castToBool(value) === (chunk === opcodes.OP_IF);
+			}
+			conditions.push(condition);
+			continue;
+		}
+		if (chunk === opcodes.OP_ELSE || chunk === opcodes.OP_ENDIF) {
+			verify(conditions.length > 0, "Invalid OP_IF construction");
+			if (chunk === opcodes.OP_ELSE) conditions.push(!conditions.pop());
+			else conditions.pop();
+			continue;
+		}
+		if (!conditions.every(Boolean)) continue;
+
+		if (Buffer.isBuffer(chunk)) {
+			stack.push(chunk);
+			continue;
+		}
+		if (chunk === opcodes.OP_0) {
+			stack.push(Buffer.alloc(0));
+			continue;
+		}
+		if (chunk === opcodes.OP_1NEGATE || (chunk >= opcodes.OP_1 && chunk <= opcodes.OP_16)) {
+			stack.push(bitcoin.script.number.encode(chunk - opcodes.OP_1 + 1));
+			continue;
+		}
+
+		switch (chunk) {
+			case opcodes.OP_SIZE:
+				stack.push(bitcoin.script.number.encode(top().length));
+				break;
+			case opcodes.OP_SHA256:
+				stack.push(bitcoin.crypto.sha256(pop()));
+				break;
+			case opcodes.OP_DROP:
+				pop();
+				break;
+			case opcodes.OP_VERIFY:
+				verify(castToBool(pop()), "Script failed an OP_VERIFY operation");
+				break;
+			case opcodes.OP_EQUAL:
+			case opcodes.OP_EQUALVERIFY: {
+				const equal = pop().equals(pop());
+				if (chunk === opcodes.OP_EQUAL) stack.push(scriptBool(equal));
+				else verify(equal, "Script failed an OP_EQUALVERIFY operation");
+				break;
+			}
+			case opcodes.OP_NUMEQUAL:
+			case opcodes.OP_NUMEQUALVERIFY: {
+				const equal = scriptNum(pop()) === scriptNum(pop());
+				if (chunk === opcodes.OP_NUMEQUAL) stack.push(scriptBool(equal));
+				else verify(equal, "Script failed an OP_NUMEQUALVERIFY operation");
+				break;
+			}
+			case opcodes.OP_CHECKSIG:
+			case opcodes.OP_CHECKSIGVERIFY: {
+				const pubkey = pop();
+				const success = checksig(pop(), pubkey);
+				if (chunk === opcodes.OP_CHECKSIG) stack.push(scriptBool(success));
+				else verify(success, "Script failed an OP_CHECKSIGVERIFY operation");
+				break;
+			}
+			case opcodes.OP_CHECKSIGADD: {
+				const pubkey = pop();
+				const n = scriptNum(pop());
+				const success = checksig(pop(), pubkey);
+				stack.push(bitcoin.script.number.encode(n + (success ? 1 : 0)));
+				break;
+			}
+			case opcodes.OP_CHECKLOCKTIMEVERIFY: {
+				const locktime = scriptNum(top(), 5);
+				verify(locktime >= 0, "Negative locktime");
+				verify(
+					locktime < LOCKTIME_THRESHOLD === tx.locktime < LOCKTIME_THRESHOLD &&
+						locktime <= tx.locktime &&
+						tx.ins[index].sequence !== SEQUENCE_FINAL,
+					"Locktime requirement not satisfied"
+				);
+				break;
+			}
+			case opcodes.OP_CHECKSEQUENCEVERIFY: {
+				const sequence = scriptNum(top(), 5);
+				verify(sequence >= 0, "Negative locktime");
+				if (sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) break;
+
+				const txSequence = tx.ins[index].sequence;
+				verify(
+					tx.version >= 2 &&
+						!(txSequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) &&
+						(txSequence & SEQUENCE_LOCKTIME_TYPE_FLAG) ===
+							(sequence & SEQUENCE_LOCKTIME_TYPE_FLAG) &&
+						(sequence & SEQUENCE_LOCKTIME_MASK) <=
+							(txSequence & SEQUENCE_LOCKTIME_MASK),
+					"Locktime requirement not satisfied"
+				);
+				break;
+			}
+			default:
+				throw scriptError(`unsupported opcode ${bitcoin.script.toASM([chunk])}`);
+		}
+	}
+
+	verify(conditions.length === 0, "Invalid OP_IF construction");
+	verify(stack.length === 1, "Stack size must be exactly one after execution");
+	verify(
+		castToBool(stack[0]),
+		"Script evaluated without error but finished with a false/empty top stack element"
+	);
+}
+
+/**
+ * Verifies a bip340 signature, with an optional sighash type byte, against the sighash
+ */
+function checkSchnorr(sig: Buffer, pubkey: Buffer, sighash: (hashType: number) => Buffer) {
+	if (sig.length !== 64 && sig.length !== 65) {
+		throw scriptError("Invalid Schnorr signature size");
+	}
+	const hashType = sig.length === 65 ? sig[64] : bitcoin.Transaction.SIGHASH_DEFAULT;
+	if (sig.length === 65 && hashType === bitcoin.Transaction.SIGHASH_DEFAULT) {
+		throw scriptError("Invalid Schnorr signature hash type");
+	}
+	if (!ecc.verifySchnorr(sighash(hashType), pubkey, sig.subarray(0, 64))) {
+		throw scriptError("Invalid Schnorr signature");
+	}
+}
+
+function scriptNum(data: Buffer, maxLength = 4): number {
+	try {
+		return bitcoin.script.number.decode(data, maxLength, true);
+	} catch {
+		throw scriptError("Script number overflow or non-minimal encoding");
+	}
+}
+
+function scriptBool(value: boolean): Buffer {
+	return value ? Buffer.from([1]) : Buffer.alloc(0);
+}
+
+/**
+ * Any non zero value is true, except negative zero
+ */
+function castToBool(data: Buffer): boolean {
+	for (let i = 0; i < data.length; i++) {
+		if (data[i] !== 0) return !(i === data.length - 1 && data[i] === 0x80);
+	}
+	return false;
+}
+
+function scriptError(reason: string): Error {
+	return new Error(`mandatory-script-verify-flag-failed (${reason})`);
+}
@@ -0,0 +1,491 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { BitcoinNetwork, BitcoinTxType, IBitcoinProvider, Urgency } from "@catalogfi/wallets";
+import {
+	BitcoinTx,
+	BitcoinUTXO,
+	FeeRates,
+} from "@catalogfi/wallets/dist/src/lib/bitcoin/provider.interface";
+import {
+	INCREMENTAL_RELAY_FEE_RATE,
+	LOCKTIME_THRESHOLD,
+	SEQUENCE_FINAL,
+	SEQUENCE_LOCKTIME_DISABLE_FLAG,
+	SEQUENCE_LOCKTIME_MASK,
+	SEQUENCE_LOCKTIME_TYPE_FLAG,
+	SEQUENCE_RBF,
+	SEQUENCE_TIME_UNIT_SECONDS,
+} from "./constants";
+import { Prevout, verifyInput } from "./interpreter";
+
+/**
+ * fee rate in sats/vbyte below which transactions are not relayed
+ */
+const MIN_RELAY_FEE_RATE = 1;
+/**
+ * seconds between two mined blocks unless told otherwise
+ */
+const BLOCK_INTERVAL = 600;
+
+const DEFAULT_FEE_RATES: FeeRates = {
+	fastestFee: 5,
+	halfHourFee: 3,
+	hourFee: 2,
+	economyFee: 1,
+	minimumFee: 1,
+};
+
+const URGENCY_FEE_RATES: Record<Urgency, keyof FeeRates> = {
+	[Urgency.FAST]: "fastestFee",
+	[Urgency.MEDIUM]: "halfHourFee",
+	[Urgency.SLOW]: "hourFee",
+};
+
+type Block = { hash: string; time: number; txids: string[] };
+
+type TxEntry = {
+	tx: bitcoin.Transaction;
+	fee: number;
+	/**
+	 * height of the confirming block, absent while in the mempool
+	 */
+	height?: number;
+	coinbase: boolean;
+};
+
+/**
+ * In-memory regtest chain implementing the provider interface of the wallets,
+ * so that HTLCs can be tested without running a node (e.g. nigiri).
+ *
+ * Broadcasted transactions go through the checks of a node's mempool: inputs exist and are unspent,
+ * locktime and sequence locks (bip65, bip68, bip113) are final, p2wpkh and taproot witnesses are valid
+ * and the minimum relay fee is paid. Mempool transactions signalling replaceability can be replaced
+ * by transactions paying more (bip125). Time only moves when blocks are mined.
+ */
+export class MockBitcoinChain implements IBitcoinProvider {
+	private blocks: Block[] = [];
+	/**
+	 * confirmed and mempool transactions in the order they were accepted
+	 */
+	private txs = new Map<string, TxEntry>();
+	private mempool = new Set<string>();
+	/**
+	 * txid spending each spent outpoint (`txid:vout`), confirmed or in the mempool
+	 */
+	private spends = new Map<string, string>();
+	private feeRates: FeeRates;
+	private network = bitcoin.networks.regtest;
+
+	/**
+	 * @param genesisTime timestamp of the genesis block
+	 * @param feeRates fee rates in sats/vbyte suggested by the chain
+	 */
+	constructor({
+		genesisTime = 1700000000,
+		feeRates = DEFAULT_FEE_RATES,
+	}: { genesisTime?: number; feeRates?: FeeRates } = {}) {
+		this.feeRates = feeRates;
+		this.blocks.push({ hash: blockHash("", 0, []), time: genesisTime, txids: [] });
+	}
+
+	/**
+	 * Pays `amount` sats to the address in a new block, like a faucet would.
+	 * The funds can be spent right away.
+	 * @returns txid of the funding transaction
+	 */
+	async fund(address: string, amount = 100_000_000): Promise<string> {
+		const tx = new bitcoin.Transaction();
+		tx.version = 2;
+		// null outpoint, the height and a counter make every funding transaction unique
+		tx.addInput(
+			Buffer.alloc(32),
+			0xffffffff,
+			SEQUENCE_FINAL,
+			bitcoin.script.compile([
+				bitcoin.script.number.encode(this.tip() + 1),
+				bitcoin.script.number.encode(this.txs.size),
+			])
+		);
+		tx.addOutput(bitcoin.address.toOutputScript(address, this.network), amount);
+
+		const txid = tx.getId();
+		this.txs.set(txid, { tx, fee: 0, coinbase: true });
+		this.mempool.add(txid);
+		await this.mine();
+		return txid;
+	}
+
+	/**
+	 * Mines the blocks, the first one confirming every transaction of the mempool
+	 * @param interval seconds between the blocks
+	 */
+	async mine(blocks = 1, interval = BLOCK_INTERVAL): Promise<void> {
+		for (let i = 0; i < blocks; i++) {
+			const height = this.tip() + 1;
+			const txids = [...this.mempool];
+			for (const txid of txids) this.txs.get(txid)!.height = height;
+			this.mempool.clear();
+
+			const previous = this.blocks[height - 1];
+			this.blocks.push({
+				hash: blockHash(previous.hash, height, txids),
+				time: previous.time + interval,
+				txids,
+			});
+		}
+	}
+
+	/**
+	 * Median of the timestamps of the block at `height` and the 10 blocks before it (bip113)
+	 * @param height defaults to the latest block
+	 */
+	async getMedianTimePast(height = this.tip()): Promise<number> {
+		return this.medianTimePast(height);
+	}
+
+	async broadcast(txHex: string): Promise<string> {
+		const tx = bitcoin.Transaction.fromHex(txHex);
+		const txid = tx.getId();
+		if (this.txs.has(txid)) throw reject("txn-already-known");
+
+		const conflicts = new Set<string>();
+		const coins = tx.ins.map((input) => {
+			const outpoint = `${txidOf(input)}:${input.index}`;
+			const coin = this.txs.get(txidOf(input));
+			const spender = this.spends.get(outpoint);
+			if (!coin || !coin.tx.outs[input.index]) {
+				throw reject("bad-txns-inputs-missingorspent");
+			}
+			if (spender) {
+				if (!this.mempool.has(spender)) throw reject("bad-txns-inputs-missingorspent");
+				conflicts.add(spender);
+			}
+			return coin;
+		});
+		const prevouts: Prevout[] = tx.ins.map((input, i) => coins[i].tx.outs[input.index]);
+
+		const inValue = prevouts.reduce((acc, { value }) => acc + value, 0);
+		const outValue = tx.outs.reduce((acc, { value }) => acc + value, 0);
+		if (inValue < outValue) throw reject("bad-txns-in-belowout");
+		const fee = inValue - outValue;
+
+		this.assertFinal(tx);
+		this.assertSequenceLocks(tx, coins);
+		tx.ins.forEach((_, i) => verifyInput(tx, i, prevouts));
+		if (fee < tx.virtualSize() * MIN_RELAY_FEE_RATE) throw reject("min relay fee not met");
+
+		if (conflicts.size > 0) {
+			const replaced = this.withDescendants(conflicts);
+			if (tx.ins.some((input) => replaced.has(txidOf(input)))) {
+				throw reject("bad-txns-spends-conflicting-tx");
+			}
+			this.assertReplaceable(tx, fee, conflicts, replaced);
+			replaced.forEach((replacedTxid) => this.evict(replacedTxid));
+		}
+
+		this.txs.set(txid, { tx, fee, coinbase: false });
+		this.mempool.add(txid);
+		tx.ins.forEach((input) => this.spends.set(`${txidOf(input)}:${input.index}`, txid));
+		return txid;
+	}
+
+	async getUTXOs(address: string, amount?: number): Promise<BitcoinUTXO[]> {
+		const script = bitcoin.address.toOutputScript(address, this.network);
+		const utxos: BitcoinUTXO[] = [];
+		for (const [txid, { tx, height }] of this.txs) {
+			tx.outs.forEach((out, vout) => {
+				if (!out.script.equals(script) || this.spends.has(`${txid}:${vout}`)) return;
+				const utxo = { txid, vout, value: out.value };
+				utxos.push(
+					height === undefined
+						? { ...utxo, status: { confirmed: false } }
+						: { ...utxo, status: { confirmed: true, block_height: height } }
+				);
+			});
+		}
+		if (amount === undefined) return utxos;
+
+		// largest utxos first until the amount is covered
+		const balance = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+		if (balance < amount) throw new Error(`insufficient funds: ${balance} < ${amount}`);
+		const selected: BitcoinUTXO[] = [];
+		let total = 0;
+		for (const utxo of utxos.sort((a, b) => b.value - a.value)) {
+			if (total >= amount) break;
+			selected.push(utxo);
+			total += utxo.value;
+		}
+		return selected;
+	}
+
+	async getBalance(address: string): Promise<number> {
+		const utxos = await this.getUTXOs(address);
+		return utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+	}
+
+	async getTransaction(txid: string): Promise<BitcoinTx> {
+		const entry = this.txs.get(txid);
+		if (!entry) throw new Error(`transaction ${txid} not found`);
+		return this.toBitcoinTx(txid, entry);
+	}
+
+	async getTransactionHex(txid: string): Promise<string> {
+		const entry = this.txs.get(txid);
+		if (!entry) throw new Error(`transaction ${txid} not found`);
+		return entry.tx.toHex();
+	}
+
+	async getFeeRates(): Promise<FeeRates> {
+		return this.feeRates;
+	}
+
+	/**
+	 * Transactions paying to (IN) or spending from (OUT) the address, latest first
+	 */
+	async getTransactions(address: string, type: BitcoinTxType): Promise<BitcoinTx[]> {
+		const txs: BitcoinTx[] = [];
+		for (const [txid, entry] of [...this.txs].reverse()) {
+			const tx = this.toBitcoinTx(txid, entry);
+			const isIn = tx.vout.some((out) => out.scriptpubkey_address === address);
+			const isOut = tx.vin.some(
+				(input) => input.prevout.scriptpubkey_address === address
+			);
+			if (
+				(type === BitcoinTxType.ALL && (isIn || isOut)) ||
+				(type === BitcoinTxType.IN && isIn) ||
+				(type === BitcoinTxType.OUT && isOut)
+			) {
+				txs.push(tx);
+			}
+		}
+		return txs;
+	}
+
+	getNetwork(): BitcoinNetwork {
+		return BitcoinNetwork.Regtest;
+	}
+
+	async getLatestTip(): Promise<number> {
+		return this.tip();
+	}
+
+	async getConfirmations(txHash: string): Promise<number> {
+		const entry = this.txs.get(txHash);
+		if (!entry) throw new Error(`transaction ${txHash} not found`);
+		return entry.height === undefined ? 0 : this.tip() - entry.height + 1;
+	}
+
+	async getTxIndex(txId: string, address: string): Promise<number> {
+		const { vout } = await this.getTransaction(txId);
+		return vout.findIndex((out) => out.scriptpubkey_address === address);
+	}
+
+	/**
+	 * Fee of a transaction spending the utxos of the account needed to send `amount`,
+	 * estimated the way the wallets' provider does
+	 */
+	async suggestFee(account: string, amount: number, urgency: Urgency): Promise<number> {
+		const inputs = (await this.getUTXOs(account, amount)).length;
+		const outputs = 2;
+		const feeRate = Math.floor(this.feeRates[URGENCY_FEE_RATES[urgency]] * 1.05);
+		return feeRate * (inputs * 70 + outputs * 31 + 10);
+	}
+
+	private tip(): number {
+		return this.blocks.length - 1;
+	}
+
+	private medianTimePast(height: number): number {
+		const times = this.blocks
+			.slice(Math.max(height - 10, 0), height + 1)
+			.map(({ time }) => time)
+			.sort((a, b) => a - b);
+		return times[Math.floor(times.length / 2)];
+	}
+
+	/**
+	 * Throws unless the locktime allows the transaction in the next block (bip65, bip113)
+	 */
+	private assertFinal(tx: bitcoin.Transaction) {
+		if (tx.locktime === 0) return;
+
+		const limit =
+			tx.locktime < LOCKTIME_THRESHOLD ? this.tip() + 1 : this.medianTimePast(this.tip());
+		if (tx.locktime < limit) return;
+		if (tx.ins.every((input) => input.sequence === SEQUENCE_FINAL)) return;
+		throw reject("non-final");
+	}
+
+	/**
+	 * Throws unless the relative locktimes of the inputs allow the transaction
+	 * in the next block (bip68)
+	 */
+	private assertSequenceLocks(tx: bitcoin.Transaction, coins: TxEntry[]) {
+		if (tx.version < 2) return;
+
+		tx.ins.forEach(({ sequence }, i) => {
+			if (sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) return;
+
+			const locktime = sequence & SEQUENCE_LOCKTIME_MASK;
+			const coinHeight = coins[i].height ?? this.tip() + 1;
+			const final =
+				sequence & SEQUENCE_LOCKTIME_TYPE_FLAG
+					? // measured from the median time past of the block before the confirmation
+					  this.medianTimePast(Math.max(coinHeight - 1, 0)) +
+							locktime * SEQUENCE_TIME_UNIT_SECONDS <=
+					  this.medianTimePast(this.tip())
+					: coinHeight + locktime <= this.tip() + 1;
+			if (!final) throw reject("non-BIP68-final");
+		});
+	}
+
+	/**
+	 * Throws unless the transaction can replace the conflicting mempool transactions (bip125)
+	 * @param replaced conflicting transactions and their descendants
+	 */
+	private assertReplaceable(
+		tx: bitcoin.Transaction,
+		fee: number,
+		conflicts: Set<string>,
+		replaced: Set<string>
+	) {
+		const feeRate = fee / tx.virtualSize();
+		for (const txid of conflicts) {
+			const conflict = this.txs.get(txid)!;
+			if (!conflict.tx.ins.some((input) => input.sequence <= SEQUENCE_RBF)) {
+				throw reject("txn-mempool-conflict");
+			}
+			if (feeRate <= conflict.fee / conflict.tx.virtualSize()) {
+				throw reject("insufficient fee");
+			}
+		}
+		const replacedFee = [...replaced].reduce(
+			(acc, txid) => acc + this.txs.get(txid)!.fee,
+			0
+		);
+		if (fee < replacedFee + tx.virtualSize() * INCREMENTAL_RELAY_FEE_RATE) {
+			throw reject("insufficient fee");
+		}
+	}
+
+	/**
+	 * The mempool transactions and every mempool transaction spending their outputs
+	 */
+	private withDescendants(txids: Set<string>): Set<string> {
+		const descendants = new Set(txids);
+		let grown = true;
+		while (grown) {
+			grown = false;
+			for (const txid of this.mempool) {
+				if (descendants.has(txid)) continue;
+				const { tx } = this.txs.get(txid)!;
+				if (tx.ins.some((input) => descendants.has(txidOf(input)))) {
+					descendants.add(txid);
+					grown = true;
+				}
+			}
+		}
+		return descendants;
+	}
+
+	private evict(txid: string) {
+		const { tx } = this.txs.get(txid)!;
+		tx.ins.forEach((input) => this.spends.delete(`${txidOf(input)}:${input.index}`));
+		this.mempool.delete(txid);
+		this.txs.delete(txid);
+	}
+
+	/**
+	 * Transaction in the format of the esplora API.
+	 * The inputs of coinbase transactions are left out as they spend no output.
+	 */
+	private toBitcoinTx(txid: string, { tx, fee, height, coinbase }: TxEntry): BitcoinTx {
+		const block = height === undefined ? undefined : this.blocks[height];
+		const vin = coinbase ? [] : tx.ins;
+		return {
+			txid,
+			fee,
+			vin: vin.map((input) => {
+				// accepted transactions spend known outputs and replacements evict their descendants
+				const prevout = this.txs.get(txidOf(input))?.tx.outs[input.index];
+				if (!prevout) {
+					throw new Error(
+						`prevout ${txidOf(input)}:${input.index} of ${txid} not found`
+					);
+				}
+				return {
+					txid: txidOf(input),
+					vout: input.index,
+					scriptsig: input.script.toString("hex"),
+					scriptsig_asm: bitcoin.script.toASM(input.script),
+					is_coinbase: false,
+					witness: input.witness.map((item) => item.toString("hex")),
+					sequence: input.sequence,
+					prevout: this.toOutput(prevout),
+				};
+			}),
+			vout: tx.outs.map((out) => this.toOutput(out)),
+			status: block
+				? {
+						confirmed: true,
+						block_height: height,
+						block_hash: block.hash,
+						block_time: block.time,
+				  }
+				: { confirmed: false },
+		};
+	}
+
+	private toOutput({ script, value }: { script: Buffer; value: number }) {
+		let address = "";
+		try {
+			address = bitcoin.address.fromOutputScript(script, this.network);
+		} catch {
+			// outputs without address, e.g. OP_RETURN
+		}
+		return {
+			scriptpubkey: script.toString("hex"),
+			scriptpubkey_asm: bitcoin.script.toASM(script),
+			scriptpubkey_type: scriptType(script),
+			scriptpubkey_address: address,
+			value,
+		};
+	}
+}
+
+function txidOf(input: bitcoin.TxInput): string {
+	return Buffer.from(input.hash).reverse().toString("hex");
+}
+
+function blockHash(previousHash: string, height: number, txids: string[]): string {
+	return bitcoin.crypto
+		.hash256(Buffer.from([previousHash, height, ...txids].join(":")))
+		.reverse()
+		.toString("hex");
+}
+
+/**
+ * Output type as named by esplora
+ */
+function scriptType(script: Buffer): string {
+	const { opcodes } = bitcoin;
+	if (script[0] === opcodes.OP_RETURN) return "op_return";
+	if (script.length === 22 && script[0] === opcodes.OP_0 && script[1] === 20) {
+		return "v0_p2wpkh";
+	}
+	if (script.length === 34 && script[0] === opcodes.OP_0 && script[1] === 32) {
+		return "v0_p2wsh";
+	}
+	if (script.length === 34 && script[0] === opcodes.OP_1 && script[1] === 32) {
+		return "v1_p2tr";
+	}
+	if (script.length === 25 && script[0] === opcodes.OP_DUP) return "p2pkh";
+	if (script.length === 23 && script[0] === opcodes.OP_HASH160) return "p2sh";
+	return "unknown";
+}
+
+/**
+ * Error of a transaction rejected by the mempool
+ */
+function reject(reason: string): Error {
+	return new Error(`sendrawtransaction RPC error: ${reason}`);
+}
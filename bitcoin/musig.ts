@@ -0,0 +1,100 @@
+import * as musig2 from "@scure/btc-signer/musig2";
+import * as ecc from "tiny-secp256k1";
+import { HTLCErrorCode, HTLCParamsError, musigErrors } from "./errors";
+
+// MuSig2 (bip327) helpers for x-only participants.
+// Keys are lifted to their even y coordinate, so participants are identified by x-only pubkeys
+// and signers holding an odd y key sign with the negated secret key.
+
+const EVEN_Y = Buffer.from([0x02]);
+
+/**
+ * Lifts x-only pubkeys to 33 bytes pubkeys with even y and sorts them
+ */
+function participants(xOnlyPubkeys: Buffer[]): Uint8Array[] {
+	return musig2.sortKeys(xOnlyPubkeys.map((pubkey) => Buffer.concat([EVEN_Y, pubkey])));
+}
+
+/**
+ * Aggregates the x-only pubkeys into a x-only MuSig2 pubkey
+ */
+export function aggregatePubkeys(xOnlyPubkeys: Buffer[]): Buffer {
+	return Buffer.from(musig2.keyAggExport(musig2.keyAggregate(participants(xOnlyPubkeys))));
+}
+
+/**
+ * Returns the secret key whose pubkey is the even y lift of its x-only pubkey
+ */
+export function evenSecretKey(secretKey: Buffer): Buffer {
+	const pubkey = ecc.pointFromScalar(secretKey, true);
+	if (!pubkey) {
+		throw new HTLCParamsError(
+			HTLCErrorCode.INVALID_SECRET_KEY,
+			musigErrors.invalidSecretKey
+		);
+	}
+	if (pubkey[0] === EVEN_Y[0]) return secretKey;
+
+	return Buffer.from(ecc.privateNegate(secretKey));
+}
+
+/**
+ * x-only pubkey of a secret key
+ */
+export function xOnlyPubkeyOf(secretKey: Buffer): Buffer {
+	const pubkey = ecc.pointFromScalar(secretKey, true);
+	if (!pubkey) {
+		throw new HTLCParamsError(
+			HTLCErrorCode.INVALID_SECRET_KEY,
+			musigErrors.invalidSecretKey
+		);
+	}
+	return Buffer.from(pubkey.subarray(1));
+}
+
+/**
+ * Generates a fresh nonce pair for signing `msg`.
+ *
+ * Note: The secret nonce must never be reused across signing sessions
+ */
+export function generateNonce(
+	secretKey: Buffer,
+	xOnlyPubkeys: Buffer[],
+	msg: Buffer
+): { publicNonce: Buffer; secretNonce: Buffer } {
+	const evenKey = evenSecretKey(secretKey);
+	const { public: publicNonce, secret: secretNonce } = musig2.nonceGen(
+		Buffer.concat([EVEN_Y, xOnlyPubkeyOf(evenKey)]),
+		evenKey,
+		aggregatePubkeys(xOnlyPubkeys),
+		msg
+	);
+	return { publicNonce: Buffer.from(publicNonce), secretNonce: Buffer.from(secretNonce) };
+}
+
+/**
+ * Signing session of `msg` for the aggregate of the x-only pubkeys tweaked with the x-only `tweak`
+ */
+export function signingSession(
+	xOnlyPubkeys: Buffer[],
+	publicNonces: Buffer[],
+	tweak: Buffer,
+	msg: Buffer
+): musig2.Session {
+	return new musig2.Session(
+		musig2.nonceAggregate(publicNonces),
+		participants(xOnlyPubkeys),
+		msg,
+		[tweak],
+		[true]
+	);
+}
+
+/**
+ * Index of the participant in the signing session
+ */
+export function participantIndex(xOnlyPubkeys: Buffer[], xOnlyPubkey: Buffer): number {
+	return participants(xOnlyPubkeys).findIndex((pubkey) =>
+		Buffer.from(pubkey.subarray(1)).equals(xOnlyPubkey)
+	);
+}
@@ -0,0 +1,559 @@
+import { IBitcoinWallet, Urgency } from "@catalogfi/wallets";
+import * as bitcoin from "bitcoinjs-lib";
+import { sha256 } from "bitcoinjs-lib/src/crypto";
+import * as ecc from "tiny-secp256k1";
+import { BitcoinUTXO } from "@catalogfi/wallets/dist/src/lib/bitcoin/provider.interface";
+import { SEQUENCE_LOCKTIME_MASK, SEQUENCE_RBF } from "./constants";
+import {
+	HTLCErrorCode,
+	HTLCExpiryError,
+	HTLCKeyError,
+	HTLCParamsError,
+	HTLCSignatureError,
+	htlcErrors,
+} from "./errors";
+import { CounterpartySig, Fee, IHTLC, Leaf, OfflineSpendOptions, SpendOutput } from "./htlc";
+import { BitcoinChainBackend, EcdsaSigner, walletBackend, walletEcdsaSigner } from "./signer";
+import { addOutputs, assert, notFundedError, toSpendOutputs, txVsize } from "./utils";
+
+/**
+ * Parameters the P2WSH HTLC address commits to
+ */
+export type P2WSHHTLCParams = {
+	/**
+	 * 32 bytes secret hash
+	 */
+	secretHash: string;
+	/**
+	 * initiator's 33 bytes compressed public key
+	 */
+	initiatorPubkey: string;
+	/**
+	 * redeemer's 33 bytes compressed public key
+	 */
+	redeemerPubkey: string;
+	/**
+	 * number of blocks after the funding utxo confirms after which the funds can be refunded
+	 */
+	expiry: number;
+};
+
+/**
+ * Everything needed to build a P2WSH HTLC spend without querying a provider
+ */
+export type P2WSHSpendOptions = Pick<
+	OfflineSpendOptions,
+	"utxos" | "tipHeight" | "fee" | "feeRate" | "maxFeeRate" | "outputs" | "rbf"
+>;
+
+/**
+ * HTLC locked by a P2WSH (segwit v0) script, for counterparties which can not send to or sign for
+ * taproot outputs. The script has the same spend conditions as the leaves of the taproot `HTLC`:
+ * the redeemer with the secret, the initiator once the relative expiry (OP_CHECKSEQUENCEVERIFY)
+ * is reached, or both of them at any time.
+ *
+ * Note: Signatures are ECDSA, the pubkeys of the initiator and the redeemer have to be compressed
+ */
+export class P2WSHHTLC implements IHTLC {
+	/**
+	 * Signer of the HTLC can be either the initiator or the redeemer
+	 */
+	private signer: EcdsaSigner;
+	private backend: BitcoinChainBackend;
+	private secretHash: string;
+	private initiatorPubkey: string;
+	private redeemerPubkey: string;
+	private expiry: number;
+	private network: bitcoin.networks.Network;
+
+	private constructor(
+		signer: EcdsaSigner,
+		backend: BitcoinChainBackend,
+		{ secretHash, initiatorPubkey, redeemerPubkey, expiry }: P2WSHHTLCParams,
+		network: bitcoin.networks.Network
+	) {
+		this.signer = signer;
+		this.backend = backend;
+		this.secretHash = secretHash;
+		this.initiatorPubkey = initiatorPubkey;
+		this.redeemerPubkey = redeemerPubkey;
+		this.expiry = expiry;
+		this.network = network;
+	}
+
+	/**
+	 * Creates a P2WSH HTLC instance
+	 * @param signer Bitcoin wallet of the initiator or redeemer
+	 * @param secretHash 32 bytes secret hash
+	 * @param initiatorPubkey initiator's 33 bytes compressed public key
+	 * @param redeemerPubkey redeemer's 33 bytes compressed public key
+	 * @param expiry number of blocks after the funding utxo confirms after which the funds can be refunded
+	 *
+	 * Note: When the signer is the initiator, only refund and instant refund can be done
+	 * When the signer is the redeemer, only redeem can be done
+	 */
+	static async from(
+		signer: IBitcoinWallet,
+		secretHash: string,
+		initiatorPubkey: string,
+		redeemerPubkey: string,
+		expiry: number
+	): Promise<P2WSHHTLC> {
+		return P2WSHHTLC.fromSigner(walletEcdsaSigner(signer), walletBackend(signer), {
+			secretHash,
+			initiatorPubkey,
+			redeemerPubkey,
+			expiry,
+		});
+	}
+
+	/**
+	 * Creates a P2WSH HTLC instance signing with any ECDSA signer and querying the chain
+	 * through any backend
+	 * @param backend chain access of the online methods, the network is taken from it
+	 */
+	static async fromSigner(
+		signer: EcdsaSigner,
+		backend: BitcoinChainBackend,
+		params: P2WSHHTLCParams
+	): Promise<P2WSHHTLC> {
+		// trim 0x prefix if present
+		const secretHash = params.secretHash.startsWith("0x")
+			? params.secretHash.slice(2)
+			: params.secretHash;
+		assert(
+			secretHash.length === 64,
+			new HTLCParamsError(
+				HTLCErrorCode.SECRET_HASH_LEN_MISMATCH,
+				htlcErrors.secretHashLenMismatch
+			)
+		);
+		for (const [role, pubkey] of [
+			["initiator", params.initiatorPubkey],
+			["redeemer", params.redeemerPubkey],
+		]) {
+			assert(
+				pubkey.length === 66 && (pubkey.startsWith("02") || pubkey.startsWith("03")),
+				new HTLCParamsError(
+					HTLCErrorCode.PUBKEY_LEN_MISMATCH,
+					`${role} ${htlcErrors.compressedPubkeyRequired}`
+				)
+			);
+		}
+		assert(
+			params.expiry > 0,
+			new HTLCParamsError(
+				HTLCErrorCode.ZERO_OR_NEGATIVE_EXPIRY,
+				htlcErrors.zeroOrNegativeExpiry
+			)
+		);
+		assert(
+			Number.isInteger(params.expiry) && params.expiry <= SEQUENCE_LOCKTIME_MASK,
+			new HTLCParamsError(
+				HTLCErrorCode.INVALID_RELATIVE_EXPIRY,
+				htlcErrors.invalidRelativeExpiry
+			)
+		);
+
+		return new P2WSHHTLC(
+			signer,
+			backend,
+			{ ...params, secretHash },
+			await backend.getNetwork()
+		);
+	}
+
+	/**
+	 * Witness script of the HTLC, each spend selects its branch with the OP_IF arguments
+	 */
+	witnessScript(): Buffer {
+		return bitcoin.script.fromASM(
+			`
+			OP_IF
+				OP_SHA256
+				${this.secretHash}
+				OP_EQUALVERIFY
+				${this.redeemerPubkey}
+				OP_CHECKSIG
+			OP_ELSE
+				OP_IF
+					${bitcoin.script.number.encode(this.expiry).toString("hex")}
+					OP_CHECKSEQUENCEVERIFY
+					OP_DROP
+					${this.initiatorPubkey}
+					OP_CHECKSIG
+				OP_ELSE
+					${this.initiatorPubkey}
+					OP_CHECKSIGVERIFY
+					${this.redeemerPubkey}
+					OP_CHECKSIG
+				OP_ENDIF
+			OP_ENDIF
+			`
+				.trim()
+				.replace(/\s+/g, " ")
+		);
+	}
+
+	/**
+	 * Generates the P2WSH address of the HTLC
+	 */
+	address(): string {
+		const { address } = bitcoin.payments.p2wsh({
+			redeem: { output: this.witnessScript() },
+			network: this.network,
+		});
+		if (!address) {
+			throw new HTLCKeyError(
+				HTLCErrorCode.ADDRESS_GENERATION_FAILED,
+				htlcErrors.htlcAddressGenerationFailed
+			);
+		}
+		return address;
+	}
+
+	/**
+	 * Funds the HTLC address with `amount` sats from the signer
+	 */
+	async initiate(amount: number, fee?: number): Promise<string> {
+		if (!this.signer.send) {
+			throw new HTLCParamsError(
+				HTLCErrorCode.FUNDING_WALLET_REQUIRED,
+				htlcErrors.fundingWalletRequired
+			);
+		}
+		fee ??= await this.backend.suggestFee(
+			await this.changeAddress(),
+			amount,
+			Urgency.MEDIUM
+		);
+
+		return await this.signer.send(this.address(), amount, fee);
+	}
+
+	/**
+	 * Reveals the secret and redeems the HTLC
+	 * @param outputs destinations of the funds, defaults to the signer's address
+	 * @param rbf signal replaceability (bip125)
+	 */
+	async redeem(
+		secret: string,
+		fee?: Fee,
+		outputs?: SpendOutput[],
+		rbf = false
+	): Promise<string> {
+		const txHex = await this.buildRedeemTx(secret, {
+			...(await this.fetchSpendOptions(fee)),
+			outputs,
+			rbf,
+		});
+
+		return await this.backend.broadcast(txHex);
+	}
+
+	/**
+	 * Builds and signs a redeem transaction from the given utxos without broadcasting it
+	 * @returns raw signed transaction hex
+	 */
+	async buildRedeemTx(secret: string, opts: P2WSHSpendOptions): Promise<string> {
+		const preimage = Buffer.from(secret, "hex");
+		assert(
+			sha256(preimage).toString("hex") === this.secretHash,
+			new HTLCParamsError(HTLCErrorCode.SECRET_MISMATCH, htlcErrors.secretMismatch)
+		);
+
+		const tx = await this.buildRawTx(Leaf.REDEEM, opts, preimage);
+		const hashes = this.sighashes(tx, opts.utxos);
+		for (let i = 0; i < tx.ins.length; i++) {
+			const signature = await this.signer.signEcdsa(hashes[i]);
+			tx.setWitness(i, this.witnessFor(Leaf.REDEEM, { redeemer: signature }, preimage));
+		}
+
+		return tx.toHex();
+	}
+
+	/**
+	 * Refunds the funds back to the initiator if the expiry block height + 1 is reached
+	 * @param outputs destinations of the funds, defaults to the signer's address
+	 * @param rbf signal replaceability (bip125)
+	 */
+	async refund(fee?: Fee, outputs?: SpendOutput[], rbf = false): Promise<string> {
+		const txHex = await this.buildRefundTx({
+			...(await this.fetchSpendOptions(fee)),
+			outputs,
+			rbf,
+		});
+
+		return await this.backend.broadcast(txHex);
+	}
+
+	/**
+	 * Builds and signs a refund transaction from the given utxos without broadcasting it.
+	 * `opts.tipHeight` is used to ensure the utxos are expired.
+	 * @returns raw signed transaction hex
+	 */
+	async buildRefundTx(opts: P2WSHSpendOptions): Promise<string> {
+		const blocks = this.blocksUntilRefundable(opts.utxos, opts.tipHeight);
+		if (blocks > 0) {
+			throw new HTLCExpiryError(
+				HTLCErrorCode.NOT_EXPIRED,
+				htlcErrors.htlcNotExpired(blocks),
+				{ blocks }
+			);
+		}
+
+		const tx = await this.buildRawTx(Leaf.REFUND, opts);
+		const hashes = this.sighashes(tx, opts.utxos);
+		for (let i = 0; i < tx.ins.length; i++) {
+			const signature = await this.signer.signEcdsa(hashes[i]);
+			tx.setWitness(i, this.witnessFor(Leaf.REFUND, { initiator: signature }));
+		}
+
+		return tx.toHex();
+	}
+
+	/**
+	 * Instantly refunds the funds to the initiator given the counterparty's signatures
+	 * produced by `signInstantRefund`
+	 * @param outputs destinations of the funds, defaults to the signer's address
+	 *
+	 * Note: If there are multiple UTXOs being spend, there should be a signature for each UTXO in counterPartySigs
+	 */
+	async instantRefund(
+		counterPartySigs: CounterpartySig[],
+		fee?: Fee,
+		outputs?: SpendOutput[]
+	): Promise<string> {
+		const txHex = await this.buildInstantRefundTx(counterPartySigs, {
+			...(await this.fetchSpendOptions(fee)),
+			outputs,
+		});
+
+		return await this.backend.broadcast(txHex);
+	}
+
+	/**
+	 * Builds and signs an instant refund transaction from the given utxos without broadcasting it
+	 * @returns raw signed transaction hex
+	 */
+	async buildInstantRefundTx(
+		counterPartySigs: CounterpartySig[],
+		opts: P2WSHSpendOptions
+	): Promise<string> {
+		assert(
+			counterPartySigs.length > 0,
+			new HTLCSignatureError(
+				HTLCErrorCode.NO_COUNTERPARTY_SIGS,
+				htlcErrors.noCounterpartySigs
+			)
+		);
+
+		const tx = await this.buildRawTx(Leaf.INSTANT_REFUND, opts);
+		const hashes = this.sighashes(tx, opts.utxos);
+		const redeemer = Buffer.from(this.redeemerPubkey, "hex");
+		for (let i = 0; i < tx.ins.length; i++) {
+			const { txid, vout } = opts.utxos[i];
+			const counterPartySig = counterPartySigs.find(
+				(sig) => sig.utxo === txid && sig.vout === vout
+			);
+			if (!counterPartySig) {
+				throw new HTLCSignatureError(
+					HTLCErrorCode.COUNTERPARTY_SIG_NOT_FOUND,
+					htlcErrors.counterPartySigNotFound(`${txid}:${vout}`),
+					{ utxo: txid, input: i }
+				);
+			}
+			const redeemerSig = Buffer.from(counterPartySig.sig, "hex");
+			if (redeemerSig.length !== 64 || !ecc.verify(hashes[i], redeemer, redeemerSig)) {
+				throw new HTLCSignatureError(
+					HTLCErrorCode.INVALID_COUNTERPARTY_SIG,
+					htlcErrors.invalidCounterpartySigForUTXO(`${txid}:${vout}`),
+					{ utxo: txid, input: i }
+				);
+			}
+
+			const signature = await this.signer.signEcdsa(hashes[i]);
+			tx.setWitness(
+				i,
+				this.witnessFor(Leaf.INSTANT_REFUND, {
+					redeemer: redeemerSig,
+					initiator: signature,
+				})
+			);
+		}
+
+		return tx.toHex();
+	}
+
+	/**
+	 * Signs the instant refund for every UTXO of the HTLC.
+	 * Should be called by the redeemer, the signatures are then handed over to the initiator
+	 * who passes them to `instantRefund`.
+	 *
+	 * Note: refundAddress and fee should be the same as the ones the initiator's `instantRefund` uses
+	 * @param refundAddress address of the initiator receiving the refund or the outputs of the refund
+	 * @returns compact signature of the redeemer for each utxo
+	 */
+	async signInstantRefund(
+		refundAddress: string | SpendOutput[],
+		fee?: Fee
+	): Promise<CounterpartySig[]> {
+		const opts = await this.fetchSpendOptions(fee);
+		const tx = await this.buildRawTx(Leaf.INSTANT_REFUND, {
+			...opts,
+			outputs: toSpendOutputs(refundAddress),
+		});
+
+		const hashes = this.sighashes(tx, opts.utxos);
+		const sigs = [];
+		for (let i = 0; i < hashes.length; i++) {
+			const signature = await this.signer.signEcdsa(hashes[i]);
+			const { txid, vout } = opts.utxos[i];
+			sigs.push({ utxo: txid, vout, sig: signature.toString("hex") });
+		}
+		return sigs;
+	}
+
+	/**
+	 * Fetches the utxos of the htlc address, the block height and the fee
+	 */
+	private async fetchSpendOptions(fee?: Fee): Promise<P2WSHSpendOptions> {
+		const address = this.address();
+		const utxos = await this.backend.getUTXOs(address);
+		const balance = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+		if (balance === 0) throw notFundedError(address);
+
+		const opts: P2WSHSpendOptions = {
+			utxos,
+			tipHeight: await this.backend.getLatestTip(),
+		};
+		if (typeof fee === "object") return { ...opts, feeRate: fee.feeRate };
+
+		return {
+			...opts,
+			fee: fee ?? (await this.backend.suggestFee(address, balance, Urgency.MEDIUM)),
+		};
+	}
+
+	/**
+	 * Builds a raw unsigned transaction spending the given utxos of the htlc address through
+	 * the branch of the spend. Uses signer's address as the change output unless `outputs` are given.
+	 *
+	 * @param secret secret revealed by a redeem, its length is used to size the spend
+	 */
+	private async buildRawTx(leaf: Leaf, opts: P2WSHSpendOptions, secret?: Buffer) {
+		const { utxos, fee, feeRate, maxFeeRate, outputs } = opts;
+		const balance = utxos.reduce((acc, utxo) => acc + utxo.value, 0);
+		if (balance === 0) throw notFundedError(this.address());
+
+		const tx = new bitcoin.Transaction();
+		tx.version = 2;
+		for (const utxo of utxos) {
+			const index = tx.addInput(Buffer.from(utxo.txid, "hex").reverse(), utxo.vout);
+			// the relative expiry is enforced by the sequence (bip68)
+			if (leaf === Leaf.REFUND) tx.ins[index].sequence = this.expiry;
+			else if (opts.rbf) tx.ins[index].sequence = SEQUENCE_RBF;
+		}
+
+		const placeholder = this.witnessFor(
+			leaf,
+			{ initiator: ECDSA_SIG_PLACEHOLDER, redeemer: ECDSA_SIG_PLACEHOLDER },
+			Buffer.alloc(secret?.length ?? 32)
+		);
+		addOutputs(
+			tx,
+			{
+				balance,
+				fee,
+				feeRate,
+				maxFeeRate,
+				outputs: outputs ?? [{ address: await this.changeAddress(), change: true }],
+			},
+			this.network,
+			(outputScripts) => txVsize(Array(utxos.length).fill(placeholder), outputScripts)
+		);
+
+		return tx;
+	}
+
+	/**
+	 * segwit v0 sighashes (SIGHASH_ALL) of every input spending the witness script
+	 */
+	private sighashes(tx: bitcoin.Transaction, utxos: BitcoinUTXO[]): Buffer[] {
+		const witnessScript = this.witnessScript();
+		return tx.ins.map((_, i) =>
+			tx.hashForWitnessV0(
+				i,
+				witnessScript,
+				utxos[i].value,
+				bitcoin.Transaction.SIGHASH_ALL
+			)
+		);
+	}
+
+	/**
+	 * Witness stack for spending the given branch, ordered the way the witness script consumes it.
+	 * Compact signatures are DER encoded with SIGHASH_ALL
+	 */
+	private witnessFor(
+		leaf: Leaf,
+		sigs: { initiator?: Buffer; redeemer?: Buffer },
+		secret?: Buffer
+	): Buffer[] {
+		const encode = (sig: Buffer) =>
+			sig.length === 64
+				? bitcoin.script.signature.encode(sig, bitcoin.Transaction.SIGHASH_ALL)
+				: sig;
+		const [taken, notTaken] = [Buffer.from([1]), Buffer.alloc(0)];
+		const witnessScript = this.witnessScript();
+		switch (leaf) {
+			case Leaf.REDEEM:
+				return [encode(sigs.redeemer!), secret!, taken, witnessScript];
+			case Leaf.REFUND:
+				return [encode(sigs.initiator!), taken, notTaken, witnessScript];
+			case Leaf.INSTANT_REFUND:
+				return [
+					encode(sigs.redeemer!),
+					encode(sigs.initiator!),
+					notTaken,
+					notTaken,
+					witnessScript,
+				];
+			default:
+				throw new HTLCParamsError(HTLCErrorCode.INVALID_LEAF, htlcErrors.invalidLeaf);
+		}
+	}
+
+	/**
+	 * Blocks left until all the utxos can be refunded, 0 if they already can
+	 */
+	private blocksUntilRefundable(utxos: BitcoinUTXO[], tipHeight: number): number {
+		let blocks = 0;
+		for (const utxo of utxos) {
+			// an unconfirmed utxo needs to confirm first
+			const needMoreBlocks = utxo.status.confirmed
+				? utxo.status.block_height + this.expiry - tipHeight
+				: this.expiry;
+			blocks = Math.max(blocks, needMoreBlocks > 0 ? needMoreBlocks + 1 : 0);
+		}
+		return blocks;
+	}
+
+	/**
+	 * Address of the signer receiving the funds of spends without explicit outputs
+	 */
+	private async changeAddress(): Promise<string> {
+		if (!this.signer.getAddress) {
+			throw new HTLCParamsError(
+				HTLCErrorCode.OUTPUTS_REQUIRED,
+				htlcErrors.outputsRequired
+			);
+		}
+		return await this.signer.getAddress();
+	}
+}
+
+/**
+ * DER signature with SIGHASH_ALL of the largest size, used to size witnesses before signing
+ */
+const ECDSA_SIG_PLACEHOLDER = Buffer.alloc(73);
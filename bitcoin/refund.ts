@@ -0,0 +1,153 @@
+import * as bitcoin from "bitcoinjs-lib";
+import {
+	LOCKTIME_THRESHOLD,
+	SEQUENCE_FINAL,
+	SEQUENCE_LOCKTIME_DISABLE_FLAG,
+	SEQUENCE_LOCKTIME_MASK,
+	SEQUENCE_LOCKTIME_TYPE_FLAG,
+	SEQUENCE_TIME_UNIT_SECONDS,
+} from "./constants";
+import { HTLCErrorCode, HTLCParamsError, htlcErrors } from "./errors";
+import { BitcoinChainBackend } from "./signer";
+
+// Refunds signed at initiation (see `HTLC.initiate`), which the initiator keeps and broadcasts
+// after the expiry with nothing but a chain backend.
+
+/**
+ * Signed refund of the funding utxo of a HTLC
+ */
+export type PresignedRefund = {
+	/**
+	 * raw signed refund transaction
+	 */
+	txHex: string;
+	/**
+	 * funding utxo of the HTLC spent by the refund
+	 */
+	utxo: { txid: string; vout: number; value: number };
+};
+
+/**
+ * Destination of a presigned refund
+ */
+export type PresignRefundOptions = {
+	/**
+	 * address receiving the whole funded amount minus the fee
+	 */
+	address: string;
+	/**
+	 * fee rate in sats/vbyte, fixed once signed so it should cover the fees expected at the expiry
+	 */
+	feeRate: number;
+};
+
+/**
+ * Details of a presigned refund read from its transaction
+ */
+export type RefundDetails = {
+	txid: string;
+	/**
+	 * fee in sats and fee rate in sats/vbyte
+	 */
+	fee: number;
+	feeRate: number;
+	outputs: { address: string; amount: number }[];
+	/**
+	 * when the refund can be mined: blocks or seconds after the funding utxo confirms
+	 * (relative expiries), or the block height or median time past it has to be past (absolute expiries)
+	 */
+	lock: { blocks: number } | { seconds: number } | { height: number } | { timestamp: number };
+};
+
+/**
+ * Serializes the refund so that it can be stored away from the library
+ */
+export function serializeRefund(refund: PresignedRefund): string {
+	return JSON.stringify(refund);
+}
+
+/**
+ * Parses a serialized refund, throws if it is malformed or does not spend its funding utxo
+ */
+export function parseRefund(serialized: string): PresignedRefund {
+	let refund: PresignedRefund;
+	try {
+		refund = JSON.parse(serialized);
+		bitcoin.Transaction.fromHex(refund.txHex);
+	} catch (e) {
+		throw invalidRefund((e as Error).message);
+	}
+	const { txid, vout, value } = refund.utxo ?? {};
+	if (typeof txid !== "string" || !Number.isInteger(vout) || !Number.isInteger(value)) {
+		throw invalidRefund("funding utxo is missing");
+	}
+
+	const tx = bitcoin.Transaction.fromHex(refund.txHex);
+	const spendsUtxo =
+		tx.ins.length === 1 &&
+		Buffer.from(tx.ins[0].hash).reverse().toString("hex") === txid &&
+		tx.ins[0].index === vout;
+	if (!spendsUtxo) throw invalidRefund("transaction does not spend the funding utxo");
+
+	return { txHex: refund.txHex, utxo: { txid, vout, value } };
+}
+
+/**
+ * Reads the outputs, the fee and the lock of the refund from its transaction
+ * @param network network of the output addresses
+ */
+export function inspectRefund(
+	refund: PresignedRefund,
+	network: bitcoin.networks.Network
+): RefundDetails {
+	const tx = bitcoin.Transaction.fromHex(refund.txHex);
+	const outputs = tx.outs.map(({ script, value }) => ({
+		address: bitcoin.address.fromOutputScript(script, network),
+		amount: value,
+	}));
+	const fee = outputs.reduce((acc, { amount }) => acc - amount, refund.utxo.value);
+
+	return {
+		txid: tx.getId(),
+		fee,
+		feeRate: fee / tx.virtualSize(),
+		outputs,
+		lock: refundLock(tx),
+	};
+}
+
+/**
+ * Broadcasts the refund, nodes reject it until the expiry of the HTLC is reached
+ * @returns txid of the refund
+ */
+export async function broadcastRefund(
+	refund: PresignedRefund | string,
+	backend: Pick<BitcoinChainBackend, "broadcast">
+): Promise<string> {
+	const { txHex } = typeof refund === "string" ? parseRefund(refund) : refund;
+	return await backend.broadcast(txHex);
+}
+
+/**
+ * Lock of the refund input, from its sequence (bip68) or the locktime of the transaction (bip65)
+ */
+function refundLock(tx: bitcoin.Transaction): RefundDetails["lock"] {
+	const { sequence } = tx.ins[0];
+	if (tx.version >= 2 && !(sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG)) {
+		const value = sequence & SEQUENCE_LOCKTIME_MASK;
+		return sequence & SEQUENCE_LOCKTIME_TYPE_FLAG
+			? { seconds: value * SEQUENCE_TIME_UNIT_SECONDS }
+			: { blocks: value };
+	}
+	if (sequence === SEQUENCE_FINAL) return { height: 0 };
+	return tx.locktime < LOCKTIME_THRESHOLD
+		? { height: tx.locktime }
+		: { timestamp: tx.locktime };
+}
+
+function invalidRefund(reason: string): HTLCParamsError {
+	return new HTLCParamsError(
+		HTLCErrorCode.INVALID_PRESIGNED_REFUND,
+		htlcErrors.invalidPresignedRefund(reason)
+	);
+}
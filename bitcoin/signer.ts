@@ -0,0 +1,195 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { BitcoinTxType, IBitcoinProvider, IBitcoinWallet, Urgency } from "@catalogfi/wallets";
+import {
+	BitcoinTx,
+	BitcoinUTXO,
+} from "@catalogfi/wallets/dist/src/lib/bitcoin/provider.interface";
+import * as ecc from "tiny-secp256k1";
+import { xOnlyPubkey } from "./utils";
+import { HTLCErrorCode, HTLCExpiryError, htlcErrors } from "./errors";
+import { evenSecretKey, generateNonce, signingSession, xOnlyPubkeyOf } from "./musig";
+
+/**
+ * Signs the script path spends of a HTLC with the untweaked key of the initiator or the redeemer.
+ * The key can live anywhere (wallet, HSM, KMS, remote signer) as long as it produces bip340 signatures.
+ */
+export interface TaprootSigner {
+	/**
+	 * x-only public key of the signer without 02 or 03 prefix
+	 */
+	getXOnlyPubkey(): Promise<string>;
+	/**
+	 * bip340 Schnorr signature of a 32 bytes sighash
+	 */
+	signSchnorr(hash: Buffer): Promise<Buffer>;
+	/**
+	 * address receiving the funds of spends without explicit outputs.
+	 * Spends of signers without an address require outputs
+	 */
+	getAddress?(): Promise<string>;
+	/**
+	 * sends `amount` sats to `toAddress`, required only to initiate the HTLC
+	 */
+	send?(toAddress: string, amount: number, fee?: number): Promise<string>;
+	/**
+	 * MuSig2 (bip327) nonce pair for signing `hash` with the aggregate of the x-only pubkeys,
+	 * required only for cooperative key path spends (see `HTLCParams.musig`).
+	 * The secret nonce must be used for a single signing session and then discarded
+	 */
+	musigNonce?(
+		pubkeys: Buffer[],
+		hash: Buffer
+	): Promise<{ publicNonce: Buffer; secretNonce: Buffer }>;
+	/**
+	 * MuSig2 partial signature of the session with a secret nonce from `musigNonce`
+	 */
+	musigPartialSign?(session: MusigSession, secretNonce: Buffer): Promise<Buffer>;
+}
+
+/**
+ * MuSig2 session of a key path sighash
+ */
+export type MusigSession = {
+	/**
+	 * x-only pubkeys of the participants
+	 */
+	pubkeys: Buffer[];
+	/**
+	 * public nonces of the participants in the order they are sorted in (see `participantIndex`)
+	 */
+	publicNonces: Buffer[];
+	/**
+	 * x-only taproot tweak of the aggregate key
+	 */
+	tweak: Buffer;
+	hash: Buffer;
+};
+
+/**
+ * Signs the spends of a P2WSH HTLC with the key of the initiator or the redeemer (ECDSA)
+ */
+export interface EcdsaSigner {
+	/**
+	 * 33 bytes compressed public key of the signer
+	 */
+	getPubkey(): Promise<string>;
+	/**
+	 * 64 bytes compact ECDSA signature (r and low s) of a 32 bytes sighash
+	 */
+	signEcdsa(hash: Buffer): Promise<Buffer>;
+	/**
+	 * address receiving the funds of spends without explicit outputs.
+	 * Spends of signers without an address require outputs
+	 */
+	getAddress?(): Promise<string>;
+	/**
+	 * sends `amount` sats to `toAddress`, required only to initiate the HTLC
+	 */
+	send?(toAddress: string, amount: number, fee?: number): Promise<string>;
+}
+
+/**
+ * Read access to the chain and broadcasting, used by the online methods of the HTLC
+ */
+export interface BitcoinChainBackend {
+	getNetwork(): Promise<bitcoin.networks.Network>;
+	getUTXOs(address: string): Promise<BitcoinUTXO[]>;
+	getLatestTip(): Promise<number>;
+	/**
+	 * median time past of the block at `height`, defaults to the latest block.
+	 * Required only to refund HTLCs with a timestamp or a relative time expiry online
+	 */
+	getMedianTimePast?(height?: number): Promise<number>;
+	getTransaction(txid: string): Promise<BitcoinTx>;
+	getTransactionHex(txid: string): Promise<string>;
+	getTransactions(address: string): Promise<BitcoinTx[]>;
+	broadcast(txHex: string): Promise<string>;
+	/**
+	 * fee in sats for spending `amount` sats from `address`
+	 */
+	suggestFee(address: string, amount: number, urgency: Urgency): Promise<number>;
+}
+
+/**
+ * Adapts a Bitcoin wallet to a signer
+ */
+export function walletSigner(wallet: IBitcoinWallet): TaprootSigner {
+	return {
+		getXOnlyPubkey: async () => xOnlyPubkey(await wallet.getPublicKey()).toString("hex"),
+		signSchnorr: (hash) => wallet.signSchnorr(hash),
+		getAddress: () => wallet.getAddress(),
+		send: (toAddress, amount, fee) => wallet.send(toAddress, amount, fee),
+	};
+}
+
+/**
+ * Signer holding a secret key in memory, which can also sign MuSig2 key path spends
+ */
+export function keySigner(secretKey: Buffer): TaprootSigner {
+	return {
+		getXOnlyPubkey: async () => xOnlyPubkeyOf(secretKey).toString("hex"),
+		signSchnorr: async (hash) => Buffer.from(ecc.signSchnorr(hash, secretKey)),
+		musigNonce: async (pubkeys, hash) => generateNonce(secretKey, pubkeys, hash),
+		musigPartialSign: async ({ pubkeys, publicNonces, tweak, hash }, secretNonce) =>
+			Buffer.from(
+				signingSession(pubkeys, publicNonces, tweak, hash).sign(
+					secretNonce,
+					evenSecretKey(secretKey)
+				)
+			),
+	};
+}
+
+/**
+ * Adapts a Bitcoin wallet to an ECDSA signer
+ */
+export function walletEcdsaSigner(wallet: IBitcoinWallet): EcdsaSigner {
+	return {
+		getPubkey: () => wallet.getPublicKey(),
+		signEcdsa: async (hash) => Buffer.from(await wallet.sign(hash.toString("hex")), "hex"),
+		getAddress: () => wallet.getAddress(),
+		send: (toAddress, amount, fee) => wallet.send(toAddress, amount, fee),
+	};
+}
+
+/**
+ * Adapts the provider of a Bitcoin wallet to a chain backend
+ *
+ * Note: The median time past is taken from the provider only if it implements `getMedianTimePast`
+ * (see `hasMedianTimePast`), time based refunds otherwise throw.
+ */
+export function walletBackend(wallet: IBitcoinWallet): BitcoinChainBackend {
+	const provider = () => wallet.getProvider();
+	return {
+		getNetwork: () => wallet.getNetwork(),
+		getUTXOs: async (address) => (await provider()).getUTXOs(address),
+		getLatestTip: async () => (await provider()).getLatestTip(),
+		getMedianTimePast: async (height) => {
+			const chain = await provider();
+			if (!hasMedianTimePast(chain)) {
+				throw new HTLCExpiryError(
+					HTLCErrorCode.MEDIAN_TIME_PAST_UNAVAILABLE,
+					htlcErrors.medianTimePastUnavailable
+				);
+			}
+			return chain.getMedianTimePast(height);
+		},
+		getTransaction: async (txid) => (await provider()).getTransaction(txid),
+		getTransactionHex: async (txid) => (await provider()).getTransactionHex(txid),
+		getTransactions: async (address) =>
+			(await provider()).getTransactions(address, BitcoinTxType.ALL),
+		broadcast: async (txHex) => (await provider()).broadcast(txHex),
+		suggestFee: async (address, amount, urgency) =>
+			(await provider()).suggestFee(address, amount, urgency),
+	};
+}
+
+/**
+ * Whether the provider also serves the median time past of blocks (e.g. `MockBitcoinChain`),
+ * which the providers of the wallets do not
+ */
+export function hasMedianTimePast(
+	provider: IBitcoinProvider
+): provider is IBitcoinProvider & Required<Pick<BitcoinChainBackend, "getMedianTimePast">> {
+	return "getMedianTimePast" in provider && typeof provider.getMedianTimePast === "function";
+}
@@ -1,5 +1,10 @@
-import { LEAF_VERSION } from "./constants";
+import * as bitcoin from "bitcoinjs-lib";
+import { DEFAULT_MAX_FEE_RATE, DUST_RELAY_FEE_RATE, LEAF_VERSION } from "./constants";
 import * as varuint from "varuint-bitcoin";
+import { taggedHash } from "bitcoinjs-lib/src/crypto";
+import { tweakPubkey } from "./internalKey";
+import { HTLCErrorCode, HTLCFundingError, HTLCSpendError, htlcErrors } from "./errors";
+import type { SpendOutput } from "./htlc";
 
 /**
  * Given a hex string or a buffer, return the x-only pubkey. (removes y coordinate the prefix)
@@ -9,8 +14,18 @@ export function xOnlyPubkey(pubkey: Buffer | string): Buffer {
 	return pubkey.length === 32 ? pubkey : pubkey.subarray(1, 33);
 }
 
-export function assert(condition: boolean, message: string): void {
-	if (!condition) throw new Error(message);
+/**
+ * Given a hex string or a buffer, returns the buffer
+ */
+export function toBuffer(data: Buffer | string): Buffer {
+	return typeof data === "string" ? Buffer.from(data, "hex") : data;
+}
+
+/**
+ * Throws the error (or a plain error with the message) if the condition does not hold
+ */
+export function assert(condition: boolean, error: string | Error): void {
+	if (!condition) throw typeof error === "string" ? new Error(error) : error;
 }
 
 /**
@@ -38,3 +53,224 @@ export function sortLeaves(leaf1: Buffer, leaf2: Buffer) {
 	}
 	return [leaf1, leaf2];
 }
+
+/**
+ * Checks that the control block proves the inclusion of the leaf script in the taproot output key (bip341)
+ */
+export function verifyLeafInclusion(
+	outputKey: Buffer,
+	controlBlock: Buffer,
+	leafScript: Buffer
+): boolean {
+	if (controlBlock.length < 33 || (controlBlock.length - 33) % 32 !== 0) return false;
+
+	const leafVersion = controlBlock[0] & 0xfe;
+	const parity = controlBlock[0] & 1;
+	const internalPubkey = controlBlock.subarray(1, 33);
+
+	let hash = taggedHash(
+		"TapLeaf",
+		Buffer.concat([Uint8Array.from([leafVersion]), prefixScriptLength(leafScript)])
+	);
+	for (let i = 33; i < controlBlock.length; i += 32) {
+		hash = taggedHash(
+			"TapBranch",
+			Buffer.concat(sortLeaves(hash, controlBlock.subarray(i, i + 32)))
+		);
+	}
+
+	try {
+		const tweaked = tweakPubkey(internalPubkey, hash);
+		return tweaked.parity === parity && Buffer.from(tweaked.xOnlyPubkey).equals(outputKey);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Smallest value an output with the script can hold without being dust,
+ * computed the way nodes relaying transactions do
+ */
+export function dustThreshold(outputScript: Buffer): number {
+	const outputSize = 8 + varuint.encodingLength(outputScript.length) + outputScript.length;
+	// outpoint, script sig length, sequence and the (discounted) signature spending the output
+	const spendSize = isWitnessProgram(outputScript)
+		? 32 + 4 + 1 + 26 + 4
+		: 32 + 4 + 1 + 107 + 4;
+	return (outputSize + spendSize) * DUST_RELAY_FEE_RATE;
+}
+
+/**
+ * Whether the output script is a segwit output (OP_0 to OP_16 followed by a 2 to 40 bytes push)
+ */
+export function isWitnessProgram(outputScript: Buffer): boolean {
+	const version = outputScript[0];
+	return (
+		outputScript.length >= 4 &&
+		outputScript.length <= 42 &&
+		(version === 0 || (version >= 0x51 && version <= 0x60)) &&
+		outputScript[1] + 2 === outputScript.length
+	);
+}
+
+/**
+ * size of a length prefixed byte slice
+ */
+function varSliceSize(length: number): number {
+	return varuint.encodingLength(length) + length;
+}
+
+/**
+ * Error thrown when the htlc address has no utxos to spend
+ */
+export function notFundedError(address: string): HTLCFundingError {
+	return new HTLCFundingError(
+		HTLCErrorCode.NOT_FUNDED,
+		`${address} ${htlcErrors.notFunded}`,
+		{
+			address,
+			balance: 0,
+		}
+	);
+}
+
+/**
+ * Exact virtual size of a version 2 transaction with inputs carrying the given witnesses
+ * and the given outputs
+ */
+export function txVsize(witnesses: Buffer[][], outputScripts: Buffer[]): number {
+	const inputCount = witnesses.length;
+	const witnessSize = witnesses.reduce(
+		(acc, witness) =>
+			witness.reduce(
+				(acc, item) => acc + varSliceSize(item.length),
+				acc + varuint.encodingLength(witness.length)
+			),
+		0
+	);
+
+	// version + locktime, and for each input: outpoint + empty script sig + sequence
+	const baseSize =
+		8 +
+		varuint.encodingLength(inputCount) +
+		inputCount * (36 + 1 + 4) +
+		varuint.encodingLength(outputScripts.length) +
+		outputScripts.reduce((acc, script) => acc + 8 + varSliceSize(script.length), 0);
+
+	// segwit marker and flag are witness data
+	const weight = baseSize * 4 + 2 + witnessSize;
+	return Math.ceil(weight / 4);
+}
+
+/**
+ * Adds the outputs to the transaction, the change output receiving the balance left
+ * after the other outputs and the fee. The fee is computed from the fee rate if not given.
+ * Rejects fees above the balance or the fee rate cap, and dust outputs.
+ *
+ * @param vsizeOf virtual size of the transaction given the output scripts
+ */
+export function addOutputs(
+	tx: bitcoin.Transaction,
+	{
+		balance,
+		fee,
+		feeRate,
+		maxFeeRate = DEFAULT_MAX_FEE_RATE,
+		outputs,
+	}: {
+		balance: number;
+		fee?: number;
+		feeRate?: number;
+		maxFeeRate?: number;
+		outputs: SpendOutput[];
+	},
+	network: bitcoin.networks.Network,
+	vsizeOf: (outputScripts: Buffer[]) => number
+) {
+	assert(
+		outputs.filter((output) => "change" in output).length === 1,
+		new HTLCSpendError(
+			HTLCErrorCode.SINGLE_CHANGE_OUTPUT_REQUIRED,
+			htlcErrors.singleChangeOutputRequired
+		)
+	);
+
+	const outputScripts = outputs.map((output) =>
+		bitcoin.address.toOutputScript(output.address, network)
+	);
+	const vsize = vsizeOf(outputScripts);
+	if (fee === undefined) {
+		assert(
+			feeRate !== undefined,
+			new HTLCSpendError(
+				HTLCErrorCode.FEE_OR_FEE_RATE_REQUIRED,
+				htlcErrors.feeOrFeeRateRequired
+			)
+		);
+		fee = Math.ceil(vsize * feeRate!);
+	}
+	assert(
+		Number.isInteger(fee) && fee >= 0,
+		new HTLCSpendError(HTLCErrorCode.INVALID_FEE, htlcErrors.invalidFee(fee), { fee })
+	);
+	assert(
+		fee < balance,
+		new HTLCSpendError(
+			HTLCErrorCode.FEE_EXCEEDS_BALANCE,
+			htlcErrors.feeExceedsBalance(balance, fee),
+			{ fee }
+		)
+	);
+	assert(
+		fee / vsize <= maxFeeRate,
+		new HTLCSpendError(
+			HTLCErrorCode.FEE_RATE_TOO_HIGH,
+			htlcErrors.feeRateTooHigh(fee / vsize, maxFeeRate),
+			{ fee }
+		)
+	);
+
+	let change = balance - fee;
+	for (const output of outputs) {
+		if (!("amount" in output)) continue;
+		assert(
+			Number.isInteger(output.amount) && output.amount > 0,
+			new HTLCSpendError(
+				HTLCErrorCode.INVALID_OUTPUT_AMOUNT,
+				htlcErrors.invalidOutputAmount(output.address),
+				{ address: output.address, amount: output.amount }
+			)
+		);
+		change -= output.amount;
+	}
+	assert(
+		change > 0,
+		new HTLCSpendError(
+			HTLCErrorCode.OUTPUTS_EXCEED_BALANCE,
+			htlcErrors.outputsExceedBalance(balance, balance - change),
+			{ fee }
+		)
+	);
+
+	for (let i = 0; i < outputs.length; i++) {
+		const output = outputs[i];
+		const amount = "amount" in output ? output.amount : change;
+		const threshold = dustThreshold(outputScripts[i]);
+		assert(
+			amount >= threshold,
+			new HTLCSpendError(
+				HTLCErrorCode.DUST_OUTPUT,
+				htlcErrors.dustOutput(output.address, amount, threshold),
+				{ address: output.address, amount }
+			)
+		);
+		tx.addOutput(outputScripts[i], amount);
+	}
+}
+
+/**
+ * A single address receives the whole balance (minus fee)
+ */
+export function toSpendOutputs(to: string | SpendOutput[]): SpendOutput[] {
+	return typeof to === "string" ? [{ address: to, change: true }] : to;
+}